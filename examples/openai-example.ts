@@ -1,4 +1,4 @@
-import OpenAIWrapper from '../src/openai';
+import OpenAIWrapper from '../src/openai.js';
 import dotenv from 'dotenv';
 import express from 'express';
 import cors from 'cors';
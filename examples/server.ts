@@ -1,7 +1,7 @@
 import express from 'express';
 import cors from 'cors';
 import { WebSocketServer } from 'ws';
-import UniversalAPIWrapper from '../src/app.js';
+import UniversalAPIWrapper, { HttpError } from '../src/app.js';
 
 const app = express();
 app.use(express.json());
@@ -24,9 +24,8 @@ app.all('/proxy/:endpoint', async (req, res) => {
     res.json(response.data);
   } catch (error: unknown) {
     console.error('❌ API Proxy Error:', error);
-    const errorResponse = error as { response?: { status?: number }; message?: string };
-    res.status(errorResponse.response?.status || 500).json({
-      message: errorResponse.message || 'Internal Server Error',
+    res.status(error instanceof HttpError ? error.status : 500).json({
+      message: error instanceof Error ? error.message : 'Internal Server Error',
     });
   }
 });
@@ -38,9 +37,8 @@ app.post('/graphql', async (req, res) => {
     res.json(response.data);
   } catch (error: unknown) {
     console.error('❌ GraphQL Proxy Error:', error);
-    const errorResponse = error as { response?: { status?: number }; message?: string };
-    res.status(errorResponse.response?.status || 500).json({
-      message: errorResponse.message || 'Internal Server Error',
+    res.status(error instanceof HttpError ? error.status : 500).json({
+      message: error instanceof Error ? error.message : 'Internal Server Error',
     });
   }
 });
@@ -1,47 +1,276 @@
 import axios, { AxiosHeaders, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import WebSocket from 'ws';
-import memoryCache from 'memory-cache';
-
-interface Auth {
-  apiKey?: string;
-  bearerToken?: string;
-  basicAuth?: {
-    username: string;
-    password: string;
-  };
+import { Readable } from 'stream';
+import {
+  CacheRule,
+  CacheStore,
+  FileCacheStore,
+  MemoryCacheStore,
+  findCacheRule,
+  matchesPattern,
+  normalizePath,
+} from './cache.js';
+import { RequestCoalescer, cloneData } from './dedupe.js';
+import { Cassette, CassetteConfig, CassetteMode } from './cassette.js';
+import { RateLimitConfig, RateLimitScope, RateLimitStats, RateLimiter } from './rate-limit.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerScope,
+  CircuitState,
+  CircuitStateChange,
+  CircuitStatus,
+} from './circuit-breaker.js';
+import {
+  AttemptRecord,
+  AuthError,
+  BudgetExceededError,
+  CassetteMismatchError,
+  CircuitOpenError,
+  GraphQLError,
+  HttpError,
+  NetworkError,
+  OpenAPIValidationError,
+  RateLimitError,
+  RetryExhaustedError,
+  RpcError,
+  StructuredOutputError,
+  TimeoutError,
+  WrapperError,
+  normalizeError,
+} from './errors.js';
+import {
+  CacheMode,
+  CachedResponse,
+  WrapperResponse,
+  createHttpCacheEntry,
+  getConditionalHeaders,
+  getStoreTTL,
+  refreshHttpCacheEntry,
+  toPlainHeaders,
+  toWrapperResponse,
+} from './http-cache.js';
+import {
+  GraphQLErrorDetail,
+  GraphQLErrorPolicy,
+  GraphQLOptions,
+  GraphQLResult,
+  GraphQLResultMode,
+  PersistedQueryRegistry,
+  buildGraphQLBody,
+  checkGraphQLResult,
+  getPersistedQueryError,
+  hashQuery,
+  toGraphQLParams,
+} from './graphql.js';
+import {
+  GraphQLSubscribeOptions,
+  GraphQLSubscription,
+  GraphQLWSClient,
+  GraphQLWebSocketConfig,
+} from './graphql-ws.js';
+import { ManagedWebSocket, ReconnectOptions, WebSocketOptions } from './websocket.js';
+import {
+  RpcCallOptions,
+  RpcCodec,
+  RpcHandler,
+  RpcMessage,
+  RpcOptions,
+  WebSocketRpc,
+  envelopeCodec,
+  jsonRpcCodec,
+} from './ws-rpc.js';
+import {
+  SSEConnectOptions,
+  SSEConnection,
+  SSEEvent,
+  SSEOptions,
+  SSEParser,
+  readEventStream,
+} from './sse.js';
+import { OAuth2Config, OAuth2Token, OAuth2TokenManager, TokenProvider } from './oauth2.js';
+import {
+  BodyTransformOptions,
+  HeaderMiddlewareOptions,
+  HeaderSource,
+  LogEntry,
+  LoggingOptions,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareStage,
+  ResponseOptions,
+  UseOptions,
+  bodyTransformMiddleware,
+  createResponse,
+  headerMiddleware,
+  loggingMiddleware,
+  runMiddleware,
+} from './middleware.js';
+import {
+  AppliedAuth,
+  CredentialContext,
+  CredentialResolver,
+  Credentials,
+  applyCredentials,
+  credentialKey,
+} from './auth.js';
+import {
+  OpenAPIDocument,
+  OpenAPIOperations,
+  OperationCall,
+  OperationParams,
+  createOperations,
+  getApiKeyPlacement,
+  getServerURL,
+} from './openapi.js';
+import { GenerateTypesOptions, generateTypes } from './openapi-types.js';
+import {
+  AwsCredentials,
+  AwsSigV4Config,
+  HmacSignerConfig,
+  RequestSigner,
+  SignableRequest,
+  TimestampFormat,
+  awsSigV4Signer,
+  hmacSigner,
+  signingAdapter,
+} from './signing.js';
+import {
+  RetryContext,
+  RetryPolicy,
+  getRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+  withIdempotencyKey,
+} from './retry.js';
+
+/**
+ * Instance credentials. Per request, the first of these that applies is used: the call's `auth`
+ * option, then what `credentialResolver` returns, then the credentials below. See `Credentials`
+ * for how the schemes within one set combine.
+ */
+interface Auth extends Credentials {
   refreshToken?: string;
+  // OAuth2 tokens are only sent with the instance credentials, never with resolved or per-call ones
+  oauth2?: OAuth2Config;
+  tokenProvider?: TokenProvider;
+  onTokenRefreshed?: (token: OAuth2Token) => void | Promise<void>;
+  credentialResolver?: CredentialResolver;
 }
 
 interface WrapperConfig {
   baseURL?: string;
   timeout?: number;
+  // Number of retries after the first attempt; `retryPolicy.retries` takes precedence
   retryAttempts?: number;
+  retryPolicy?: RetryPolicy;
   cacheEnabled?: boolean;
   cacheDuration?: number;
+  // Defaults to a per-instance in-memory LRU store
+  cacheStore?: CacheStore;
+  // 'http' follows Cache-Control and revalidates with ETag/Last-Modified
+  cacheMode?: CacheMode;
+  // Set when the store is shared between users, so `private` responses are not stored
+  sharedCache?: boolean;
+  // First matching rule decides the TTL; unmatched requests use `cacheDuration`
+  cacheRules?: CacheRule[];
+  // Drop cached GETs for a path after a successful POST/PUT/PATCH/DELETE to it
+  invalidateOnMutation?: boolean;
+  // Share one network request between identical concurrent GET/HEAD/OPTIONS calls
+  dedupeRequests?: boolean;
+  rateLimit?: RateLimitConfig | null;
+  circuitBreaker?: CircuitBreakerConfig | null;
+  // Default for `GraphQLOptions.resultMode`
+  graphqlResultMode?: GraphQLResultMode;
+  // Send queries as sha256 hashes first (Apollo automatic persisted queries)
+  graphqlPersistedQueries?: boolean;
+  // Send queries as GET so CDNs and the response cache can store them
+  graphqlUseGET?: boolean;
+  // Used by `subscribeGraphQL`
+  graphqlWebSocket?: GraphQLWebSocketConfig;
   auth?: Auth;
+  // OpenAPI 3.x document whose operations are exposed on `ops`. Its first server is the
+  // default `baseURL`, and its API key scheme the default `apiKeyName`/`apiKeyIn`.
   openAPIDocument?: any;
+  // Record requests to a fixture file or replay them from it
+  cassette?: CassetteConfig | Cassette | null;
+}
+
+interface RequestOptions extends Omit<AxiosRequestConfig, 'auth'> {
+  // Credentials for this call instead of the instance's, or false to send it without any
+  auth?: Credentials | false;
+  // Free-form values for middleware and `credentialResolver`; never sent
+  meta?: Record<string, any>;
+  retryPolicy?: RetryPolicy;
+  // Overrides `dedupeRequests` for this call
+  dedupe?: boolean;
+  // Higher priority requests leave the rate limit queue first
+  priority?: number;
+  // Cache this call even if its method isn't GET/HEAD (true) or skip the cache for it (false)
+  cache?: boolean;
+  // Retry this call whatever its method (true) or never retry it (false)
+  idempotent?: boolean;
 }
 
-interface WebSocketOptions {
-  onOpen?: () => void;
-  onMessage?: (data: any) => void;
-  onError?: (error: Error) => void;
-  onClose?: () => void;
+const WRAPPER_OPTION_KEYS: Array<keyof RequestOptions> = [
+  'retryPolicy',
+  'dedupe',
+  'priority',
+  'cache',
+  'idempotent',
+  'auth',
+  'meta',
+];
+
+function toAxiosConfig(options: RequestOptions): Omit<AxiosRequestConfig, 'auth'> {
+  const config: RequestOptions = { ...options };
+  for (const key of WRAPPER_OPTION_KEYS) {
+    delete config[key];
+  }
+  return config;
 }
 
-class UniversalAPIWrapper {
+/**
+ * `TOperations` types `ops`; pass the interface generated by `nexus-openapi-types`.
+ */
+class UniversalAPIWrapper<TOperations = OpenAPIOperations> {
+  // One function per operationId in `openAPIDocument`
+  public readonly ops: TOperations;
   private config: Required<WrapperConfig>;
   private axiosInstance: AxiosInstance;
+  private tokenManager: OAuth2TokenManager | null = null;
+  private revalidating = new Set<string>();
+  private inFlight = new RequestCoalescer<WrapperResponse>();
+  private rateLimiter: RateLimiter | null = null;
+  private circuitBreaker: CircuitBreaker | null = null;
+  private persistedQueries = new PersistedQueryRegistry();
+  private subscriptionClients = new Map<string, GraphQLWSClient>();
+  private cassette: Cassette | null = null;
+  private middleware: Record<MiddlewareStage, Middleware[]> = { request: [], attempt: [] };
 
   constructor(config: WrapperConfig = {}) {
+    const document: OpenAPIDocument | null = config.openAPIDocument || null;
     this.config = {
-      baseURL: config.baseURL || '',
+      baseURL: config.baseURL || (document && getServerURL(document)) || '',
       timeout: config.timeout || 30000,
-      retryAttempts: config.retryAttempts || 3,
+      retryAttempts: config.retryAttempts ?? 3,
+      retryPolicy: config.retryPolicy || {},
       cacheEnabled: config.cacheEnabled || false,
       cacheDuration: config.cacheDuration || 300000,
-      auth: config.auth || {},
+      cacheStore: config.cacheStore || new MemoryCacheStore(),
+      cacheMode: config.cacheMode || 'simple',
+      sharedCache: config.sharedCache || false,
+      cacheRules: config.cacheRules || [],
+      invalidateOnMutation: config.invalidateOnMutation ?? true,
+      dedupeRequests: config.dedupeRequests || false,
+      rateLimit: config.rateLimit || null,
+      circuitBreaker: config.circuitBreaker || null,
+      graphqlResultMode: config.graphqlResultMode || 'response',
+      graphqlPersistedQueries: config.graphqlPersistedQueries || false,
+      graphqlUseGET: config.graphqlUseGET || false,
+      graphqlWebSocket: config.graphqlWebSocket || {},
+      auth: document ? { ...getApiKeyPlacement(document), ...config.auth } : config.auth || {},
       openAPIDocument: config.openAPIDocument || null,
+      cassette: config.cassette || null,
     };
 
     this.axiosInstance = axios.create({
@@ -49,52 +278,94 @@ class UniversalAPIWrapper {
       timeout: this.config.timeout,
     });
 
+    if (this.config.cassette) {
+      const { cassette } = this.config;
+      this.cassette = cassette instanceof Cassette ? cassette : new Cassette(cassette);
+      this.axiosInstance.defaults.adapter = this.cassette.axiosAdapter(
+        axios.getAdapter(this.axiosInstance.defaults.adapter)
+      );
+    }
+    // Wraps the cassette adapter too, so recordings see the signed request
+    this.axiosInstance.defaults.adapter = signingAdapter(
+      (requestConfig) => (requestConfig as any)._signer,
+      axios.getAdapter(this.axiosInstance.defaults.adapter)
+    );
+    if (this.config.rateLimit) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    }
+    if (this.config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+    }
+
+    const { oauth2, tokenProvider, onTokenRefreshed } = this.config.auth;
+    if (oauth2 || tokenProvider) {
+      this.tokenManager = new OAuth2TokenManager({
+        oauth2,
+        tokenProvider,
+        onTokenRefreshed,
+        accessToken: this.config.auth.bearerToken,
+        refreshToken: this.config.auth.refreshToken,
+      });
+    }
+
     this.setupInterceptors();
+    this.ops = (
+      document
+        ? createOperations(document, (method, endpoint, options) =>
+            this.request(method, endpoint, options)
+          )
+        : {}
+    ) as TOperations;
   }
 
   private setupInterceptors(): void {
-    this.axiosInstance.interceptors.request.use((config) => {
-      const headers = this.getAuthHeaders(config.headers);
-      config.headers = new AxiosHeaders(headers);
-      return config;
-    });
-
     this.axiosInstance.interceptors.response.use(
       (response) => this.handleResponse(response),
       (error) => this.handleError(error)
     );
   }
 
-  private getAuthHeaders(existingHeaders: any = {}): Record<string, string> {
-    const headers = { ...existingHeaders };
+  private async resolveCredentials(
+    method: string,
+    endpoint: string,
+    options: RequestOptions
+  ): Promise<Credentials | false> {
+    if (options.auth !== undefined) return options.auth;
+    const { credentialResolver } = this.config.auth;
+    const resolved = await credentialResolver?.({
+      method: method.toUpperCase(),
+      endpoint,
+      options,
+    });
+    return resolved ?? this.config.auth;
+  }
 
-    if (this.config.auth.apiKey) {
-      headers['X-API-Key'] = this.config.auth.apiKey;
-    }
-    if (this.config.auth.bearerToken) {
-      headers['Authorization'] = `Bearer ${this.config.auth.bearerToken}`;
-    }
-    if (this.config.auth.basicAuth) {
-      const credentials = Buffer.from(
-        `${this.config.auth.basicAuth.username}:${this.config.auth.basicAuth.password}`
-      ).toString('base64');
-      headers['Authorization'] = `Basic ${credentials}`;
-    }
-    return headers;
+  private async applyAuth(credentials: Credentials | false): Promise<AppliedAuth | null> {
+    if (credentials === false) return null;
+    const token =
+      credentials === this.config.auth && this.tokenManager
+        ? await this.tokenManager.getAccessToken()
+        : undefined;
+    return applyCredentials(credentials, token);
+  }
+
+  // Headers for the instance credentials, as sent on WebSocket upgrade requests
+  private async resolveAuthHeaders(): Promise<Record<string, string>> {
+    return (await this.applyAuth(this.config.auth))!.headers;
   }
 
   private async handleResponse(response: AxiosResponse): Promise<any> {
-    const data = this.parseResponse(response.data);
-    if (this.config.cacheEnabled) {
-      const cacheKey = this.getCacheKey(response.config);
-      memoryCache.put(cacheKey, data, this.config.cacheDuration);
-    }
     return response;
   }
 
   private async handleError(error: any): Promise<any> {
     if (error.response) {
-      if (error.response.status === 401 && this.config.auth.refreshToken) {
+      if (
+        error.response.status === 401 &&
+        this.tokenManager &&
+        error.config?._instanceAuth &&
+        !error.config._authRetried
+      ) {
         return this.refreshTokenAndRetry(error);
       }
     }
@@ -102,21 +373,118 @@ class UniversalAPIWrapper {
   }
 
   private async refreshTokenAndRetry(error: any): Promise<any> {
-    const newToken = await this.getNewAccessToken();
-    this.config.auth.bearerToken = newToken;
-    error.config.headers['Authorization'] = `Bearer ${newToken}`;
+    const failedHeader = String(error.config.headers?.['Authorization'] || '');
+    const failedToken = failedHeader.startsWith('Bearer ') ? failedHeader.slice(7) : undefined;
+    await this.getNewAccessToken(failedToken);
+    error.config.headers = AxiosHeaders.from(error.config.headers).set(
+      await this.resolveAuthHeaders()
+    );
+    error.config._authRetried = true;
     return this.axiosInstance(error.config);
   }
 
-  private async getNewAccessToken(): Promise<string> {
-    // Implement your token refresh logic here
-    return 'new-access-token';
+  private async getNewAccessToken(failedToken?: string): Promise<string> {
+    if (!this.tokenManager) {
+      throw new Error('Token refresh requires auth.oauth2 or auth.tokenProvider');
+    }
+    return this.tokenManager.handleUnauthorized(failedToken);
+  }
+
+  private getCacheKey(config: AxiosRequestConfig, auth?: Credentials | false): string {
+    const key: unknown[] = [
+      (config.method || 'GET').toUpperCase(),
+      config.url || '',
+      config.params || {},
+      config.data || {},
+    ];
+    // Responses fetched with other credentials than the instance's are kept apart
+    if (auth !== undefined && auth !== this.config.auth) key.push(credentialKey(auth));
+    return JSON.stringify(key);
+  }
+
+  private getCacheTTL(method: string, endpoint: string, cache?: boolean): number {
+    const upper = method.toUpperCase();
+    if (!this.config.cacheEnabled || cache === false) {
+      return 0;
+    }
+    if (cache === undefined && upper !== 'GET' && upper !== 'HEAD') {
+      return 0;
+    }
+    const rule = findCacheRule(this.config.cacheRules, upper, endpoint);
+    return rule ? rule.ttl : this.config.cacheDuration;
+  }
+
+  protected get cacheEnabled(): boolean {
+    return this.config.cacheEnabled;
   }
 
-  private getCacheKey(config: AxiosRequestConfig): string {
-    return `${config.method}-${config.url}-${JSON.stringify(
-      config.params || {}
-    )}-${JSON.stringify(config.data || {})}`;
+  protected async getCached(key: string): Promise<any> {
+    return this.config.cacheEnabled ? this.config.cacheStore.get(key) : undefined;
+  }
+
+  protected async setCached(key: string, value: any, ttl = this.config.cacheDuration) {
+    if (this.config.cacheEnabled && ttl > 0) {
+      await this.writeCache(key, value, ttl);
+    }
+  }
+
+  private async writeCache(key: string, value: any, ttl: number): Promise<void> {
+    try {
+      await this.config.cacheStore.set(key, value, ttl);
+    } catch {
+      // A failed write (e.g. a full disk) leaves the response uncached instead of failing the call
+    }
+  }
+
+  /**
+   * Removes cached responses whose request path matches `pattern` (`*` is a wildcard).
+   * Returns the number of entries removed.
+   */
+  public async invalidate(pattern: string | RegExp): Promise<number> {
+    const store = this.config.cacheStore;
+    let removed = 0;
+    for (const key of await store.keys()) {
+      const url = this.getCacheKeyURL(key);
+      if (url !== undefined && matchesPattern(pattern, url)) {
+        await store.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public async clear(): Promise<void> {
+    await this.config.cacheStore.clear();
+  }
+
+  private getCacheKeyURL(key: string): string | undefined {
+    try {
+      const parsed = JSON.parse(key);
+      return Array.isArray(parsed) && typeof parsed[1] === 'string' ? parsed[1] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async invalidateResource(endpoint: string): Promise<void> {
+    const resource = normalizePath(endpoint);
+    const parent = resource.slice(0, resource.lastIndexOf('/')) || '/';
+    await this.invalidate(resource);
+    await this.invalidate(`${resource === '/' ? '' : resource}/*`);
+    if (parent !== '/') {
+      await this.invalidate(parent);
+    }
+  }
+
+  // Error responses to stream requests arrive unread; errors carry the parsed body instead
+  private async readErrorBody(stream: Readable): Promise<any> {
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    } catch {
+      return undefined;
+    }
+    return this.parseResponse(Buffer.concat(chunks).toString('utf8'));
   }
 
   private parseResponse(data: any): any {
@@ -130,76 +498,610 @@ class UniversalAPIWrapper {
     return data;
   }
 
+  /**
+   * Adds a middleware. Request middleware (the default) runs once per call, outside the cache
+   * and the retry loop; attempt middleware runs on every attempt, after auth headers have been
+   * added. Within a stage, middleware added first runs outermost.
+   */
+  public use(middleware: Middleware, options: UseOptions = {}): this {
+    this.middleware[options.stage || 'request'].push(middleware);
+    return this;
+  }
+
   public async request(
     method: string,
     endpoint: string,
-    options: AxiosRequestConfig = {}
-  ): Promise<any> {
-    const cacheKey = this.getCacheKey({ method, url: endpoint, ...options });
-    if (this.config.cacheEnabled) {
-      const cachedData = memoryCache.get(cacheKey);
-      if (cachedData) return cachedData;
+    options: RequestOptions = {}
+  ): Promise<WrapperResponse> {
+    const context: MiddlewareContext = {
+      stage: 'request',
+      method: method.toUpperCase(),
+      endpoint,
+      options: { ...options },
+    };
+    return runMiddleware([...this.middleware.request], context, (ctx) =>
+      this.dispatchRequest(ctx.method, ctx.endpoint, ctx.options)
+    );
+  }
+
+  private async dispatchRequest(
+    method: string,
+    endpoint: string,
+    options: RequestOptions
+  ): Promise<WrapperResponse> {
+    // Resolved before the cache so responses for different credentials are kept apart
+    const { dedupe, ...requestOptions } = {
+      ...options,
+      auth: await this.resolveCredentials(method, endpoint, options),
+    };
+    const shouldDedupe =
+      dedupe ??
+      (this.config.dedupeRequests && ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()));
+    if (!shouldDedupe) {
+      return this.executeRequest(method, endpoint, requestOptions);
+    }
+
+    const { signal, ...sharedOptions } = requestOptions;
+    const key = this.getCacheKey(
+      { method, url: endpoint, ...toAxiosConfig(sharedOptions) },
+      sharedOptions.auth
+    );
+    const response = await this.inFlight.run(key, signal, (sharedSignal) =>
+      this.executeRequest(method, endpoint, { ...sharedOptions, signal: sharedSignal })
+    );
+    // Every caller gets its own copy so one caller mutating the result can't affect another
+    return {
+      ...response,
+      headers: new AxiosHeaders(response.headers as any),
+      data: cloneData(response.data),
+    };
+  }
+
+  private async executeRequest(
+    method: string,
+    endpoint: string,
+    options: RequestOptions
+  ): Promise<WrapperResponse> {
+    const requestConfig = { method, url: endpoint, ...toAxiosConfig(options) };
+    const cacheKey = this.getCacheKey(requestConfig, options.auth);
+    const ttl = this.getCacheTTL(method, endpoint, options.cache);
+    if (ttl > 0) {
+      const entry: CachedResponse | undefined = await this.config.cacheStore.get(cacheKey);
+      if (entry) {
+        const now = Date.now();
+        if (this.config.cacheMode !== 'http' || entry.freshUntil > now) {
+          return toWrapperResponse(entry, requestConfig, false);
+        }
+        if (entry.staleUntil > now) {
+          this.revalidateInBackground(method, endpoint, options, cacheKey, entry, ttl);
+          return toWrapperResponse(entry, requestConfig, false);
+        }
+        if (entry.etag || entry.lastModified) {
+          return this.revalidate(method, endpoint, options, cacheKey, entry, ttl);
+        }
+      }
     }
 
-    let attempts = 0;
-    while (attempts < this.config.retryAttempts) {
+    const response = await this.requestWithRetry(method, endpoint, options);
+
+    if (ttl > 0) {
+      await this.storeResponse(cacheKey, response, ttl);
+    }
+    if (
+      this.config.cacheEnabled &&
+      this.config.invalidateOnMutation &&
+      !options.cache &&
+      ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method.toUpperCase())
+    ) {
+      await this.invalidateResource(endpoint);
+    }
+    return Object.assign(response, { fromCache: false, revalidated: false });
+  }
+
+  private async storeResponse(cacheKey: string, response: AxiosResponse, ttl: number) {
+    const store = this.config.cacheStore;
+    // Stored as a copy so the caller mutating its response can't change the cache
+    const cacheable = { ...response, data: cloneData(this.parseResponse(response.data)) };
+    if (this.config.cacheMode !== 'http') {
+      const now = Date.now();
+      const entry: CachedResponse = {
+        status: response.status,
+        statusText: response.statusText,
+        headers: toPlainHeaders(response.headers),
+        data: cacheable.data,
+        storedAt: now,
+        freshUntil: now + ttl,
+        staleUntil: now + ttl,
+      };
+      await this.writeCache(cacheKey, entry, ttl);
+      return;
+    }
+
+    const entry = createHttpCacheEntry(cacheable, ttl, this.config.sharedCache);
+    if (entry) {
+      await this.writeCache(cacheKey, entry, getStoreTTL(entry, ttl));
+    } else {
+      await store.delete(cacheKey);
+    }
+  }
+
+  private async revalidate(
+    method: string,
+    endpoint: string,
+    options: RequestOptions,
+    cacheKey: string,
+    entry: CachedResponse,
+    ttl: number
+  ): Promise<WrapperResponse> {
+    const response = await this.requestWithRetry(method, endpoint, {
+      ...options,
+      headers: { ...(options.headers as any), ...getConditionalHeaders(entry) },
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+
+    if (response.status === 304) {
+      const refreshed = refreshHttpCacheEntry(
+        entry,
+        response.headers,
+        ttl,
+        this.config.sharedCache
+      );
+      await this.writeCache(cacheKey, refreshed, getStoreTTL(refreshed, ttl));
+      return toWrapperResponse(
+        refreshed,
+        { method, url: endpoint, ...toAxiosConfig(options) },
+        true
+      );
+    }
+
+    await this.storeResponse(cacheKey, response, ttl);
+    return Object.assign(response, { fromCache: false, revalidated: false });
+  }
+
+  private revalidateInBackground(
+    method: string,
+    endpoint: string,
+    options: RequestOptions,
+    cacheKey: string,
+    entry: CachedResponse,
+    ttl: number
+  ): void {
+    if (this.revalidating.has(cacheKey)) return;
+    this.revalidating.add(cacheKey);
+    const refresh =
+      entry.etag || entry.lastModified
+        ? this.revalidate(method, endpoint, options, cacheKey, entry, ttl)
+        : this.requestWithRetry(method, endpoint, options).then((response) =>
+            this.storeResponse(cacheKey, response, ttl)
+          );
+    refresh
+      // A failed background refresh leaves the stale entry in place until it expires
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(cacheKey));
+  }
+
+  private async requestWithRetry(
+    method: string,
+    endpoint: string,
+    options: RequestOptions
+  ): Promise<AxiosResponse> {
+    const policy = resolveRetryPolicy(
+      { retries: this.config.retryAttempts },
+      this.config.retryPolicy,
+      options.retryPolicy
+    );
+    if (options.idempotent === false) {
+      policy.retries = 0;
+    } else if (options.idempotent) {
+      policy.methods = [...policy.methods, method.toUpperCase()];
+    }
+    const headers = withIdempotencyKey(policy, method, options.headers as any);
+    const limitKey =
+      this.rateLimiter && this.getScopeKey(this.config.rateLimit?.scope, method, endpoint);
+    const breaker = this.circuitBreaker;
+    const circuitKey =
+      breaker && this.getScopeKey(this.config.circuitBreaker?.scope, method, endpoint);
+
+    const attempts: AttemptRecord[] = [];
+    let attempt = 0;
+    let delay = 0;
+    for (;;) {
+      // An open breaker fails fast, before the request takes a rate limit slot
+      if (circuitKey) breaker!.beforeRequest(circuitKey);
+      let release: (() => void) | undefined;
+      let retryError: any;
+      let normalized: any;
       try {
-        const response = await this.axiosInstance({
-          method,
-          url: endpoint,
-          ...options,
-        });
+        // Every attempt, including retries, waits for a rate limit slot
+        release = limitKey
+          ? await this.rateLimiter!.acquire(limitKey, options.priority, options.signal)
+          : undefined;
+        const response = await this.sendAttempt(method, endpoint, options, headers, attempt);
+        if (limitKey) this.rateLimiter!.update(limitKey, response.headers);
+        if (circuitKey) breaker!.onSuccess(circuitKey);
+        if (release && response.data instanceof Readable) {
+          // A stream holds its slot until it has been read to the end, fails or is destroyed
+          response.data.once('close', release);
+          release = undefined;
+        }
         return response;
-      } catch (error) {
-        attempts++;
-        if (attempts === this.config.retryAttempts) {
-          throw error;
+      } catch (error: any) {
+        if (error?.response?.data instanceof Readable) {
+          error.response.data = await this.readErrorBody(error.response.data);
+        }
+        normalized = normalizeError(error);
+        if (limitKey && error?.response) this.rateLimiter!.update(limitKey, error.response.headers);
+        if (circuitKey) {
+          if (breaker!.isFailure(normalized)) breaker!.onFailure(circuitKey, normalized);
+          else if (error?.response) breaker!.onSuccess(circuitKey);
+          else breaker!.onIgnored(circuitKey);
+        }
+        attempts.push({ attempt: attempt + 1, error: normalized, timestamp: Date.now() });
+        if (!isRetryable(policy, error, method, headers)) {
+          throw normalized;
         }
-        await new Promise((resolve) => setTimeout(resolve, 1000 * attempts));
+        if (attempt >= policy.retries) {
+          throw attempt > 0 ? new RetryExhaustedError(attempts) : normalized;
+        }
+        retryError = error;
+      } finally {
+        release?.();
       }
+      attempt++;
+      delay = getRetryDelay(policy, attempt, delay, retryError);
+      attempts[attempts.length - 1].delay = delay;
+      await policy.onRetry?.({ attempt, delay, error: normalized, method, url: endpoint });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private async sendAttempt(
+    method: string,
+    endpoint: string,
+    options: RequestOptions,
+    headers: Record<string, any>,
+    attempt: number
+  ): Promise<AxiosResponse> {
+    // Auth is applied per attempt so a refreshed or rotated credential is picked up on retries
+    const credentials = options.auth ?? (await this.resolveCredentials(method, endpoint, options));
+    const auth = await this.applyAuth(credentials);
+    const requestOptions: RequestOptions = {
+      ...toAxiosConfig(options),
+      headers: new AxiosHeaders(headers).set(auth ? auth.headers : {}),
+    };
+    if (auth && Object.keys(auth.params).length > 0) {
+      requestOptions.params = { ...options.params, ...auth.params };
     }
-    throw new Error('Max retry attempts reached');
+    const context: MiddlewareContext = {
+      stage: 'attempt',
+      method: method.toUpperCase(),
+      endpoint,
+      options: requestOptions,
+      attempt,
+    };
+    return runMiddleware([...this.middleware.attempt], context, async (ctx) => {
+      const response = await this.axiosInstance({
+        ...ctx.options,
+        method: ctx.method,
+        url: ctx.endpoint,
+        // Read by the signing adapter, the cassette and the 401 handler
+        _signer: auth?.signer,
+        _secretHeaders: auth ? Object.keys(auth.headers) : [],
+        _secretParams: auth ? Object.keys(auth.params) : [],
+        _instanceAuth: credentials === this.config.auth,
+      } as AxiosRequestConfig);
+      return Object.assign(response, { fromCache: false, revalidated: false });
+    });
+  }
+
+  private getScopeKey(
+    scope: RateLimitScope | CircuitBreakerScope = 'host',
+    method: string,
+    endpoint: string
+  ): string {
+    if (typeof scope === 'function') return scope(method.toUpperCase(), endpoint);
+    if (scope === 'global') return 'global';
+    // A relative baseURL (e.g. an OpenAPI server of '/v1') is resolved against a placeholder origin
+    const base = new URL(this.config.baseURL, 'http://localhost');
+    const url = new URL(endpoint, base);
+    return scope === 'route' ? `${url.host}${normalizePath(url.pathname)}` : url.host;
+  }
+
+  public getRateLimitStats(): RateLimitStats | null {
+    return this.rateLimiter ? this.rateLimiter.getStats() : null;
+  }
+
+  public getCircuitStates(): Record<string, CircuitStatus> {
+    return this.circuitBreaker ? this.circuitBreaker.getStates() : {};
   }
 
   public async queryGraphQL(
     endpoint: string,
     query: string,
-    variables: Record<string, any> = {}
+    variables: Record<string, any> = {},
+    options: GraphQLOptions = {}
   ): Promise<any> {
-    return this.request('POST', endpoint, {
-      data: { query, variables },
-    });
+    return this.sendGraphQL(endpoint, query, variables, options, false);
   }
 
   public async mutationGraphQL(
     endpoint: string,
     mutation: string,
-    variables: Record<string, any> = {}
+    variables: Record<string, any> = {},
+    options: GraphQLOptions = {}
+  ): Promise<any> {
+    return this.sendGraphQL(endpoint, mutation, variables, options, true);
+  }
+
+  private async sendGraphQL(
+    endpoint: string,
+    query: string,
+    variables: Record<string, any>,
+    options: GraphQLOptions,
+    mutation: boolean
+  ): Promise<any> {
+    const body = buildGraphQLBody(query, variables, options.operationName);
+    const method = !mutation && (options.useGET ?? this.config.graphqlUseGET) ? 'GET' : 'POST';
+    const persist =
+      (options.persistedQuery ?? this.config.graphqlPersistedQueries) &&
+      this.persistedQueries.isSupported(endpoint);
+    if (!persist) {
+      return this.finishGraphQL(
+        endpoint,
+        method,
+        body,
+        await this.executeGraphQL(endpoint, method, body, options, mutation),
+        options
+      );
+    }
+
+    const hash = hashQuery(query);
+    const extensions = { persistedQuery: { version: 1, sha256Hash: hash } };
+    if (this.persistedQueries.isKnown(endpoint, hash)) {
+      const hashed: Record<string, any> = { ...body, extensions };
+      delete hashed.query;
+      const [response, missing] = await this.tryPersistedQuery(
+        endpoint,
+        method,
+        hashed,
+        options,
+        mutation
+      );
+      if (!missing) {
+        return this.finishGraphQL(endpoint, method, hashed, response!, options);
+      }
+      await this.dropCachedGraphQL(endpoint, method, hashed, options);
+      // The server has evicted the query (or restarted), so it needs registering again
+      this.persistedQueries.forget(endpoint, hash);
+      if (missing === 'PersistedQueryNotSupported') {
+        this.persistedQueries.markUnsupported(endpoint);
+      }
+    }
+
+    // Unknown hashes are registered by sending the query along with its hash. The full query text
+    // can be too long for a URL, so it always goes in a POST body.
+    if (this.persistedQueries.isSupported(endpoint)) {
+      const full = { ...body, extensions };
+      const [response, missing] = await this.tryPersistedQuery(
+        endpoint,
+        'POST',
+        full,
+        options,
+        mutation
+      );
+      if (!missing) {
+        this.persistedQueries.markKnown(endpoint, hash);
+        return this.finishGraphQL(endpoint, 'POST', full, response!, options);
+      }
+      await this.dropCachedGraphQL(endpoint, 'POST', full, options);
+      if (missing === 'PersistedQueryNotSupported') {
+        this.persistedQueries.markUnsupported(endpoint);
+      }
+    }
+    const response = await this.executeGraphQL(endpoint, 'POST', body, options, mutation);
+    return this.finishGraphQL(endpoint, 'POST', body, response, options);
+  }
+
+  /** Sends a persisted query and reports whether the server rejected it as unknown or unsupported. */
+  private async tryPersistedQuery(
+    endpoint: string,
+    method: string,
+    body: Record<string, any>,
+    options: GraphQLOptions,
+    mutation: boolean
+  ): Promise<[WrapperResponse | undefined, string | undefined]> {
+    try {
+      const response = await this.executeGraphQL(endpoint, method, body, options, mutation);
+      return [response, getPersistedQueryError(response.data)];
+    } catch (error) {
+      const missing = error instanceof HttpError ? getPersistedQueryError(error.body) : undefined;
+      if (!missing) throw error;
+      return [undefined, missing];
+    }
+  }
+
+  private executeGraphQL(
+    endpoint: string,
+    method: string,
+    body: Record<string, any>,
+    options: GraphQLOptions,
+    mutation: boolean
+  ): Promise<WrapperResponse> {
+    return this.request(method, endpoint, {
+      ...(method === 'GET' ? { params: toGraphQLParams(body) } : { data: body }),
+      headers: options.headers,
+      signal: options.signal,
+      dedupe: mutation ? false : this.config.dedupeRequests,
+      // Mutations aren't safe to replay or serve from cache unless the caller says so
+      cache: options.cache ?? !mutation,
+      idempotent: options.retry ?? !mutation,
+    });
+  }
+
+  private async finishGraphQL(
+    endpoint: string,
+    method: string,
+    body: Record<string, any>,
+    response: WrapperResponse,
+    options: GraphQLOptions
   ): Promise<any> {
-    return this.request('POST', endpoint, {
-      data: { query: mutation, variables },
+    let result: GraphQLResult;
+    try {
+      result = checkGraphQLResult(response.data, options.errorPolicy);
+    } catch (error) {
+      if (!response.fromCache) {
+        await this.dropCachedGraphQL(endpoint, method, body, options);
+      }
+      throw error;
+    }
+    const resultMode = options.resultMode || this.config.graphqlResultMode;
+    return resultMode === 'data' ? result.data : response;
+  }
+
+  // Failed GraphQL results come back with a 2xx status, so they have to be evicted by hand
+  private async dropCachedGraphQL(
+    endpoint: string,
+    method: string,
+    body: Record<string, any>,
+    options: GraphQLOptions
+  ) {
+    const requestOptions: RequestOptions = {
+      ...(method === 'GET' ? { params: toGraphQLParams(body) } : { data: body }),
+      headers: options.headers,
+    };
+    // Entries are kept apart by credentials, so they're resolved the way the request resolved them
+    const auth = await this.resolveCredentials(method, endpoint, requestOptions);
+    const key = this.getCacheKey({ method, url: endpoint, ...toAxiosConfig(requestOptions) }, auth);
+    await this.config.cacheStore.delete(key);
+  }
+
+  /**
+   * Starts a GraphQL subscription over the `graphql-transport-ws` protocol. Subscriptions to the
+   * same URL share one socket. Relative URLs are resolved against `baseURL`.
+   */
+  public subscribeGraphQL<T = any>(
+    url: string,
+    query: string,
+    variables: Record<string, any> = {},
+    options: GraphQLSubscribeOptions = {}
+  ): GraphQLSubscription<T> {
+    const socketURL = new URL(url, this.config.baseURL || undefined);
+    socketURL.protocol = socketURL.protocol.replace(/^http/, 'ws');
+    const key = socketURL.toString();
+    let client = this.subscriptionClients.get(key);
+    if (!client) {
+      client = new GraphQLWSClient(key, {
+        ...this.config.graphqlWebSocket,
+        getHeaders: () => this.resolveAuthHeaders(),
+      });
+      this.subscriptionClients.set(key, client);
+    }
+    return client.subscribe<T>(query, variables, options);
+  }
+
+  /**
+   * Opens a WebSocket that reconnects when it drops. Auth headers are sent on every upgrade
+   * request, and messages sent while disconnected are queued.
+   */
+  public connectWebSocket(url: string, options: WebSocketOptions = {}): ManagedWebSocket {
+    return new ManagedWebSocket(url, {
+      ...options,
+      onMessage: (data) => options.onMessage?.(this.parseResponse(data)),
+      getHeaders: () => this.resolveAuthHeaders(),
     });
   }
 
-  public connectWebSocket(url: string, options: WebSocketOptions = {}): WebSocket {
-    const ws = new WebSocket(url);
+  /**
+   * Opens a managed WebSocket for request/response calls. Replies are matched to calls by id;
+   * messages that are neither replies nor handled pushes still reach `onMessage`.
+   */
+  public connectRpc(url: string, options: RpcOptions & WebSocketOptions = {}): WebSocketRpc {
+    const { codec, timeout, maxPending, ...socketOptions } = options;
+    // The socket connects asynchronously, so `rpc` exists before any callback runs
+    const connection = this.connectWebSocket(url, {
+      ...socketOptions,
+      onMessage: (data) => {
+        if (!rpc.handleMessage(data)) options.onMessage?.(data);
+      },
+      onReconnecting: (attempt, delay) => {
+        // Replies to calls sent on the dropped socket will never arrive
+        rpc.rejectPending();
+        options.onReconnecting?.(attempt, delay);
+      },
+      // Queued calls are flushed right after these
+      onOpen: () => {
+        rpc.markSent();
+        options.onOpen?.();
+      },
+      onReconnected: (attempt) => {
+        rpc.markSent();
+        options.onReconnected?.(attempt);
+      },
+    });
+    const rpc = new WebSocketRpc(connection, { codec, timeout, maxPending });
+    return rpc;
+  }
 
-    ws.on('open', () => options.onOpen?.());
-    ws.on('message', (data) => options.onMessage?.(this.parseResponse(data)));
-    ws.on('error', (error) => options.onError?.(error));
-    ws.on('close', () => options.onClose?.());
+  /**
+   * Streams Server-Sent Events from `endpoint`. The request goes through the same middleware,
+   * interceptors, auth, rate limiting and retries as REST calls, but not the cache or deduplication. Dropped streams are resumed with
+   * `Last-Event-ID`.
+   */
+  public stream(endpoint: string, options: SSEOptions = {}): AsyncGenerator<SSEEvent> {
+    const { method = 'GET', params, data, headers, signal } = options;
+    return readEventStream((streamHeaders) => {
+      const context: MiddlewareContext = {
+        stage: 'request',
+        method: method.toUpperCase(),
+        endpoint,
+        options: { params, data, signal, headers: { ...streamHeaders, ...headers } },
+      };
+      // Streams can't be shared or cached, so they skip straight to the retry loop
+      return runMiddleware(
+        [...this.middleware.request],
+        context,
+        (ctx) =>
+          this.requestWithRetry(ctx.method, ctx.endpoint, {
+            ...ctx.options,
+            responseType: 'stream',
+          }) as Promise<WrapperResponse>
+      );
+    }, options);
+  }
 
-    return ws;
+  // Callback-style variant of `stream`
+  public connectSSE(endpoint: string, options: SSEConnectOptions): SSEConnection {
+    const controller = new AbortController();
+    options.signal?.addEventListener?.('abort', () => controller.abort());
+    (async () => {
+      try {
+        for await (const event of this.stream(endpoint, {
+          ...options,
+          signal: controller.signal,
+        })) {
+          options.onEvent(event);
+        }
+      } catch (error: any) {
+        if (!controller.signal.aborted) options.onError?.(error);
+      } finally {
+        options.onClose?.();
+      }
+    })();
+    return { close: () => controller.abort() };
   }
 
-  public async get(endpoint: string, params: Record<string, any> = {}): Promise<any> {
-    return this.request('GET', endpoint, { params });
+  public async get(
+    endpoint: string,
+    params: Record<string, any> = {},
+    config: RequestOptions = {}
+  ): Promise<any> {
+    return this.request('GET', endpoint, { params, ...config });
   }
 
   public async post(
     endpoint: string,
     data: Record<string, any> = {},
-    config: AxiosRequestConfig = {}
+    config: RequestOptions = {}
   ): Promise<any> {
     return this.request('POST', endpoint, { data, ...config });
   }
@@ -207,22 +1109,124 @@ class UniversalAPIWrapper {
   public async put(
     endpoint: string,
     data: Record<string, any> = {},
-    config: AxiosRequestConfig = {}
+    config: RequestOptions = {}
   ): Promise<any> {
     return this.request('PUT', endpoint, { data, ...config });
   }
 
-  public async delete(endpoint: string, config: AxiosRequestConfig = {}): Promise<any> {
+  public async delete(endpoint: string, config: RequestOptions = {}): Promise<any> {
     return this.request('DELETE', endpoint, config);
   }
 
   public async patch(
     endpoint: string,
     data: Record<string, any> = {},
-    config: AxiosRequestConfig = {}
+    config: RequestOptions = {}
   ): Promise<any> {
     return this.request('PATCH', endpoint, { data, ...config });
   }
 }
 
 export default UniversalAPIWrapper;
+export {
+  OAuth2TokenManager,
+  MemoryCacheStore,
+  FileCacheStore,
+  RateLimiter,
+  CircuitBreaker,
+  Cassette,
+  GraphQLWSClient,
+  ManagedWebSocket,
+  WebSocketRpc,
+  jsonRpcCodec,
+  envelopeCodec,
+  SSEParser,
+  WrapperError,
+  HttpError,
+  AuthError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  GraphQLError,
+  RetryExhaustedError,
+  CircuitOpenError,
+  RpcError,
+  StructuredOutputError,
+  BudgetExceededError,
+  CassetteMismatchError,
+  OpenAPIValidationError,
+  generateTypes,
+  loggingMiddleware,
+  headerMiddleware,
+  bodyTransformMiddleware,
+  createResponse,
+  awsSigV4Signer,
+  hmacSigner,
+};
+export type {
+  Auth,
+  WrapperConfig,
+  RequestOptions,
+  WebSocketOptions,
+  ReconnectOptions,
+  RpcOptions,
+  RpcCallOptions,
+  RpcCodec,
+  RpcHandler,
+  RpcMessage,
+  OAuth2Config,
+  OAuth2Token,
+  TokenProvider,
+  RetryPolicy,
+  RetryContext,
+  CacheStore,
+  CacheRule,
+  CacheMode,
+  CachedResponse,
+  WrapperResponse,
+  RateLimitConfig,
+  RateLimitStats,
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChange,
+  CircuitStatus,
+  AttemptRecord,
+  GraphQLOptions,
+  GraphQLResult,
+  GraphQLResultMode,
+  GraphQLErrorPolicy,
+  GraphQLErrorDetail,
+  GraphQLWebSocketConfig,
+  GraphQLSubscribeOptions,
+  GraphQLSubscription,
+  SSEEvent,
+  SSEOptions,
+  SSEConnectOptions,
+  SSEConnection,
+  CassetteConfig,
+  CassetteMode,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareStage,
+  UseOptions,
+  LogEntry,
+  LoggingOptions,
+  HeaderSource,
+  HeaderMiddlewareOptions,
+  BodyTransformOptions,
+  ResponseOptions,
+  OpenAPIDocument,
+  OpenAPIOperations,
+  OperationCall,
+  OperationParams,
+  GenerateTypesOptions,
+  Credentials,
+  CredentialContext,
+  CredentialResolver,
+  RequestSigner,
+  SignableRequest,
+  AwsCredentials,
+  AwsSigV4Config,
+  HmacSignerConfig,
+  TimestampFormat,
+};
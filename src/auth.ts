@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import {
+  AwsSigV4Config,
+  HmacSignerConfig,
+  RequestSigner,
+  awsSigV4Signer,
+  hmacSigner,
+} from './signing.js';
+
+/**
+ * Credentials for one request. When several are set, they combine like this:
+ *
+ * - The API key is independent of the others and always sent.
+ * - For `Authorization`, an OAuth2 token wins over `bearerToken`, which wins over `basicAuth`.
+ * - One signer is used: `signer`, then `awsSigV4`, then `hmac`. Signing runs last, so a signer
+ *   that sets `Authorization` (AWS SigV4) replaces the header from the rule above.
+ */
+export interface Credentials {
+  apiKey?: string;
+  // Header or query parameter name; defaults to `X-API-Key` in a header and `api_key` in a query
+  apiKeyName?: string;
+  // Defaults to 'header'
+  apiKeyIn?: 'header' | 'query';
+  bearerToken?: string;
+  basicAuth?: {
+    username: string;
+    password: string;
+  };
+  signer?: RequestSigner;
+  awsSigV4?: AwsSigV4Config;
+  hmac?: HmacSignerConfig;
+}
+
+export interface CredentialContext {
+  // Upper case
+  method: string;
+  endpoint: string;
+  // The call's options, including `meta`
+  options: Record<string, any>;
+}
+
+// Returns the credentials for a request; null or undefined falls back to the instance auth and
+// false sends the request without any
+export type CredentialResolver = (
+  context: CredentialContext
+) => Credentials | false | null | undefined | Promise<Credentials | false | null | undefined>;
+
+export interface AppliedAuth {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  signer: RequestSigner | null;
+}
+
+export function getSigner(credentials: Credentials): RequestSigner | null {
+  if (credentials.signer) return credentials.signer;
+  if (credentials.awsSigV4) return awsSigV4Signer(credentials.awsSigV4);
+  if (credentials.hmac) return hmacSigner(credentials.hmac);
+  return null;
+}
+
+/**
+ * Turns credentials into the headers, query parameters and signer for a request.
+ * `accessToken` is the OAuth2 token, if the credentials have one.
+ */
+export function applyCredentials(credentials: Credentials, accessToken?: string): AppliedAuth {
+  const applied: AppliedAuth = { headers: {}, params: {}, signer: getSigner(credentials) };
+
+  if (credentials.apiKey) {
+    if (credentials.apiKeyIn === 'query') {
+      applied.params[credentials.apiKeyName || 'api_key'] = credentials.apiKey;
+    } else {
+      applied.headers[credentials.apiKeyName || 'X-API-Key'] = credentials.apiKey;
+    }
+  }
+
+  if (accessToken) {
+    applied.headers['Authorization'] = `Bearer ${accessToken}`;
+  } else if (credentials.bearerToken) {
+    applied.headers['Authorization'] = `Bearer ${credentials.bearerToken}`;
+  } else if (credentials.basicAuth) {
+    const { username, password } = credentials.basicAuth;
+    applied.headers['Authorization'] =
+      `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+  return applied;
+}
+
+const functionIds = new WeakMap<object, number>();
+let nextFunctionId = 1;
+
+/**
+ * A stable key for a set of credentials, used to keep cached and deduplicated responses of
+ * different tenants apart. Secrets only go in hashed.
+ */
+export function credentialKey(credentials: Credentials | false): string {
+  if (credentials === false) return 'none';
+  const json = JSON.stringify(credentials, (_key, value) => {
+    if (typeof value !== 'function') return value;
+    if (!functionIds.has(value)) functionIds.set(value, nextFunctionId++);
+    return `fn:${functionIds.get(value)}`;
+  });
+  return createHash('sha256').update(json).digest('hex');
+}
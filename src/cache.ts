@@ -0,0 +1,189 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage backend for cached responses. Implementations may be synchronous or async; `get`
+ * returns `undefined` for a missing or expired entry and `ttl` is in milliseconds.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<any>;
+  set(key: string, value: any, ttl: number): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+  clear(): MaybePromise<void>;
+}
+
+export interface CacheRule {
+  // Path to match; `*` matches any run of characters. RegExps are tested against the path.
+  match: string | RegExp;
+  method?: string | string[];
+  // Time to live in ms; 0 disables caching for matching requests
+  ttl: number;
+}
+
+interface Entry {
+  value: any;
+  expiresAt: number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, Entry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return [...this.entries].filter(([, entry]) => entry.expiresAt > now).map(([key]) => key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores each entry as a JSON file in `directory`, so the cache survives restarts.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<any> {
+    const entry = await this.readEntry(this.fileFor(key));
+    if (!entry || entry.key !== key) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: any, ttl: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(key);
+    // Unique per write, so concurrent writes of one key don't rename each other's file
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ key, value, expiresAt: Date.now() + ttl }));
+    await fs.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const now = Date.now();
+    const keys: string[] = [];
+    for (const file of await this.listFiles()) {
+      const entry = await this.readEntry(file);
+      if (entry && entry.expiresAt > now) {
+        keys.push(entry.key);
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all((await this.listFiles()).map((file) => fs.rm(file, { force: true })));
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.directory);
+      return names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => path.join(this.directory, name));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async readEntry(file: string): Promise<(Entry & { key: string }) | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function normalizePath(url: string): string {
+  const withoutQuery = url.split(/[?#]/)[0];
+  const pathname = /^[a-z][a-z\d+.-]*:\/\//i.test(withoutQuery)
+    ? new URL(withoutQuery).pathname
+    : withoutQuery;
+  const trimmed = pathname.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+}
+
+export function matchesPattern(pattern: string | RegExp, url: string): boolean {
+  const pathname = normalizePath(url);
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(pathname);
+  }
+  const source = normalizePath(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(pathname);
+}
+
+export function findCacheRule(
+  rules: CacheRule[],
+  method: string,
+  url: string
+): CacheRule | undefined {
+  const upper = method.toUpperCase();
+  return rules.find((rule) => {
+    if (rule.method) {
+      const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+      if (!methods.some((candidate) => candidate.toUpperCase() === upper)) return false;
+    }
+    return matchesPattern(rule.match, url);
+  });
+}
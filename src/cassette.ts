@@ -0,0 +1,381 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CassetteMismatchError } from './errors.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  // JSON fixture file the interactions are stored in
+  path: string;
+  // 'replay' (default) serves stored responses; 'record' sends requests and stores them
+  mode?: CassetteMode;
+  // In replay mode, reject requests without a stored response instead of sending them
+  strict?: boolean;
+  // Header names whose values are replaced with "[REDACTED]" in the file
+  redactHeaders?: string[];
+  // Query parameter names whose values are replaced with "[REDACTED]" in recorded URLs
+  redactQueryParams?: string[];
+}
+
+// A body is kept as parsed JSON when possible, as text otherwise, and as base64 when binary
+export interface RecordedBody {
+  encoding: 'json' | 'utf8' | 'base64';
+  data: any;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: RecordedBody;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: RecordedBody;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Interaction[];
+}
+
+const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'cookie',
+  'set-cookie',
+];
+
+const DEFAULT_REDACTED_QUERY_PARAMS = ['api_key', 'access_token'];
+
+const TEXT_TYPES = /^text\/|json|xml|javascript|x-www-form-urlencoded|event-stream/i;
+
+function toBody(data: unknown, contentType = ''): RecordedBody | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+
+  let text: string;
+  if (typeof data === 'string') {
+    text = data;
+  } else if (Buffer.isBuffer(data) || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    const buffer = Buffer.isBuffer(data)
+      ? data
+      : data instanceof ArrayBuffer
+        ? Buffer.from(data)
+        : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    if (contentType && !TEXT_TYPES.test(contentType)) {
+      return { encoding: 'base64', data: buffer.toString('base64') };
+    }
+    text = buffer.toString('utf8');
+  } else {
+    text = JSON.stringify(data);
+  }
+
+  try {
+    return { encoding: 'json', data: JSON.parse(text) };
+  } catch {
+    return { encoding: 'utf8', data: text };
+  }
+}
+
+function fromBody(body: RecordedBody | undefined): Buffer {
+  if (!body) return Buffer.alloc(0);
+  if (body.encoding === 'base64') return Buffer.from(body.data, 'base64');
+  if (body.encoding === 'json') return Buffer.from(JSON.stringify(body.data));
+  return Buffer.from(body.data);
+}
+
+// Rewrites only the redacted parameters, so the rest of the URL is kept exactly as sent
+function redactQuery(url: string, names: Set<string>): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart < 0) return url;
+  const hashStart = url.includes('#', queryStart) ? url.indexOf('#', queryStart) : url.length;
+  const query = url
+    .slice(queryStart + 1, hashStart)
+    .split('&')
+    .map((part) => {
+      const name = part.split('=')[0];
+      let decoded = name;
+      try {
+        decoded = decodeURIComponent(name.replace(/\+/g, ' '));
+      } catch {
+        // Malformed escapes are compared as they are
+      }
+      return names.has(decoded.toLowerCase()) ? `${name}=${REDACTED}` : part;
+    });
+  return `${url.slice(0, queryStart)}?${query.join('&')}${url.slice(hashStart)}`;
+}
+
+// Requests are told apart by method, URL and body; headers are ignored
+function matchKey(request: RecordedRequest): string {
+  const body = request.body ? JSON.stringify(request.body.data) : '';
+  return `${request.method.toUpperCase()} ${request.url} ${body}`;
+}
+
+function headerRecord(headers: any): Record<string, string> {
+  const result: Record<string, string> = {};
+  const add = (value: any, key: string) => {
+    if (value === undefined || value === null) return;
+    result[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  };
+  if (!headers) return result;
+  // AxiosHeaders
+  if (typeof headers.toJSON === 'function') headers = headers.toJSON();
+
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach(add);
+  } else if (Array.isArray(headers)) {
+    for (const [key, value] of headers) add(value, key);
+  } else {
+    for (const [key, value] of Object.entries(headers)) add(value, key);
+  }
+  return result;
+}
+
+// Statuses whose responses can't carry a body
+function responseBody(status: number, buffer: Buffer): Buffer | null {
+  return [101, 204, 205, 304].includes(status) ? null : buffer;
+}
+
+/**
+ * Records HTTP interactions to a JSON file and replays them, so tests can run without network
+ * access. Hooks into Axios as an adapter and into the OpenAI SDK as its `fetch`.
+ */
+export class Cassette {
+  public readonly mode: CassetteMode;
+  private interactions: Interaction[] | null = null;
+  private used = new Set<Interaction>();
+  private redact: Set<string>;
+  private redactParams: Set<string>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private config: CassetteConfig) {
+    this.mode = config.mode || 'replay';
+    this.redact = new Set(
+      [...DEFAULT_REDACTED_HEADERS, ...(config.redactHeaders || [])].map((name) =>
+        name.toLowerCase()
+      )
+    );
+    this.redactParams = new Set(
+      [...DEFAULT_REDACTED_QUERY_PARAMS, ...(config.redactQueryParams || [])].map((name) =>
+        name.toLowerCase()
+      )
+    );
+    // A recording starts from an empty cassette
+    if (this.mode === 'record') this.interactions = [];
+  }
+
+  /**
+   * Finds the stored response for a request. Identical requests are answered in the order they
+   * were recorded; once those run out the last one is repeated.
+   */
+  async find(request: RecordedRequest): Promise<RecordedResponse | undefined> {
+    const key = matchKey(request);
+    const matches = (await this.load()).filter(
+      (interaction) => matchKey(interaction.request) === key
+    );
+    if (matches.length === 0) return undefined;
+    const next =
+      matches.find((interaction) => !this.used.has(interaction)) ?? matches[matches.length - 1];
+    this.used.add(next);
+    return next.response;
+  }
+
+  async record(request: RecordedRequest, response: RecordedResponse): Promise<void> {
+    const interactions = await this.load();
+    interactions.push({
+      request: { ...request, headers: this.redactHeaders(request.headers) },
+      response: { ...response, headers: this.redactHeaders(response.headers) },
+      recordedAt: new Date().toISOString(),
+    });
+    await this.save();
+  }
+
+  // Resolves once every recorded interaction has been written
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  /**
+   * Wraps an Axios adapter. Streamed responses (`responseType: 'stream'`) are passed through
+   * without being recorded.
+   */
+  axiosAdapter(next: AxiosAdapter): AxiosAdapter {
+    return async (config: InternalAxiosRequestConfig) => {
+      // Headers and query parameters the wrapper put credentials in
+      const secretHeaders: string[] = (config as any)._secretHeaders || [];
+      const secretParams: string[] = (config as any)._secretParams || [];
+      const headers = this.redactHeaders(headerRecord(config.headers), secretHeaders);
+      const request: RecordedRequest = {
+        method: (config.method || 'get').toUpperCase(),
+        url: this.redactURL(axios.getUri(config), secretParams),
+        headers,
+        body: toBody(config.data, headers['content-type']),
+      };
+
+      if (this.mode === 'replay') {
+        const stored = await this.find(request);
+        if (stored) return this.toAxiosResponse(stored, config);
+        if (this.config.strict) throw new CassetteMismatchError(request.method, request.url);
+        return next(config);
+      }
+
+      let response: AxiosResponse;
+      try {
+        response = await next(config);
+      } catch (error: any) {
+        if (error?.response && config.responseType !== 'stream') {
+          await this.record(request, this.fromAxiosResponse(error.response));
+        }
+        throw error;
+      }
+      if (config.responseType !== 'stream') {
+        await this.record(request, this.fromAxiosResponse(response));
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Wraps a `fetch` implementation, e.g. for the OpenAI SDK's `fetch` option.
+   */
+  fetch(next: typeof fetch = globalThis.fetch): typeof fetch {
+    return async (input: any, init: any = {}) => {
+      const url = typeof input === 'string' ? input : (input.url ?? String(input));
+      const headers = headerRecord(init.headers);
+      const request: RecordedRequest = {
+        method: (init.method || 'GET').toUpperCase(),
+        url: this.redactURL(url),
+        headers,
+        // Streamed and multipart bodies can't be compared, so they don't take part in matching
+        body:
+          typeof init.body === 'string' ? toBody(init.body, headers['content-type']) : undefined,
+      };
+
+      if (this.mode === 'replay') {
+        const stored = await this.find(request);
+        if (stored) {
+          return new Response(responseBody(stored.status, fromBody(stored.body)), {
+            status: stored.status,
+            statusText: stored.statusText,
+            headers: stored.headers,
+          });
+        }
+        if (this.config.strict) throw new CassetteMismatchError(request.method, request.url);
+        return next(input, init);
+      }
+
+      const response = await next(input, init);
+      const buffer = Buffer.from(await response.arrayBuffer());
+      const responseHeaders = headerRecord(response.headers);
+      await this.record(request, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        body: toBody(buffer, responseHeaders['content-type'] || 'application/octet-stream'),
+      });
+      return new Response(responseBody(response.status, buffer), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    };
+  }
+
+  private toAxiosResponse(
+    stored: RecordedResponse,
+    config: InternalAxiosRequestConfig
+  ): AxiosResponse {
+    const buffer = fromBody(stored.body);
+    const response: AxiosResponse = {
+      status: stored.status,
+      statusText: stored.statusText,
+      headers: new AxiosHeaders(stored.headers),
+      config,
+      request: {},
+      // The response transformers parse JSON just as they would for a real response
+      data: config.responseType === 'arraybuffer' ? buffer : buffer.toString('utf8'),
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  private fromAxiosResponse(response: AxiosResponse): RecordedResponse {
+    const headers = headerRecord(response.headers);
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: toBody(response.data, headers['content-type']),
+    };
+  }
+
+  private redactHeaders(
+    headers: Record<string, string>,
+    extra: string[] = []
+  ): Record<string, string> {
+    const names = new Set([...this.redact, ...extra.map((name) => name.toLowerCase())]);
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      result[key] = names.has(key.toLowerCase()) ? REDACTED : value;
+    }
+    return result;
+  }
+
+  // Applied before matching as well, so replays match the redacted recordings
+  private redactURL(url: string, extra: string[] = []): string {
+    const names = new Set([...this.redactParams, ...extra.map((name) => name.toLowerCase())]);
+    return redactQuery(url, names);
+  }
+
+  private async load(): Promise<Interaction[]> {
+    if (this.interactions) return this.interactions;
+    try {
+      const file: CassetteFile = JSON.parse(await fs.readFile(this.config.path, 'utf8'));
+      this.interactions = file.interactions || [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.interactions = [];
+    }
+    return this.interactions;
+  }
+
+  // Writes are chained so concurrent recordings can't interleave
+  private save(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const file: CassetteFile = { version: 1, interactions: this.interactions || [] };
+      await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+      const temp = `${this.config.path}.${process.pid}.tmp`;
+      await fs.writeFile(temp, `${JSON.stringify(file, null, 2)}\n`);
+      await fs.rename(temp, this.config.path);
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,188 @@
+import OpenAI from 'openai';
+import { CanceledError, GenericAbortSignal } from 'axios';
+
+type ChatCompletionChunk = OpenAI.Chat.ChatCompletionChunk;
+type ChatCompletion = OpenAI.Chat.ChatCompletion;
+type ToolCall = OpenAI.Chat.ChatCompletionMessageToolCall;
+
+export interface ChatStreamOptions {
+  signal?: GenericAbortSignal;
+}
+
+interface ChoiceState {
+  content: string;
+  refusal: string;
+  finishReason: OpenAI.Chat.ChatCompletion.Choice['finish_reason'] | null;
+  // Keyed by the `index` the API gives each tool call
+  toolCalls: Map<number, ToolCall>;
+}
+
+/**
+ * A streamed chat completion. Iterating it yields the text deltas of the first choice; tool call
+ * fragments are assembled as they arrive and `finalCompletion()` resolves with the whole
+ * `ChatCompletion`, usage included, once the stream ends.
+ */
+export class ChatStream implements AsyncIterable<string> {
+  private controller = new AbortController();
+  private choices = new Map<number, ChoiceState>();
+  private chunk: ChatCompletionChunk | undefined;
+  private usage: ChatCompletion['usage'];
+  private started = false;
+  private settled = false;
+  private completion: Promise<ChatCompletion>;
+  private resolveCompletion!: (completion: ChatCompletion) => void;
+  private rejectCompletion!: (error: unknown) => void;
+
+  constructor(
+    private open: (signal: AbortSignal) => Promise<AsyncIterable<ChatCompletionChunk>>,
+    private normalizeError: (error: unknown) => unknown = (error) => error,
+    options: ChatStreamOptions = {},
+    private onComplete?: (completion: ChatCompletion) => void
+  ) {
+    this.completion = new Promise((resolve, reject) => {
+      this.resolveCompletion = resolve;
+      this.rejectCompletion = reject;
+    });
+    // Nobody has to ask for the final completion
+    this.completion.catch(() => undefined);
+
+    const { signal } = options;
+    if (signal?.aborted) this.controller.abort();
+    signal?.addEventListener?.('abort', () => this.abort());
+  }
+
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  // Text received so far on the first choice
+  get content(): string {
+    return this.choices.get(0)?.content ?? '';
+  }
+
+  // Tool calls of the first choice assembled so far; arguments may still be incomplete
+  get toolCalls(): ToolCall[] {
+    const state = this.choices.get(0);
+    return state ? [...state.toolCalls.values()] : [];
+  }
+
+  abort(): void {
+    this.controller.abort();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<string> {
+    if (this.started) throw new Error('A chat stream can only be read once');
+    this.started = true;
+
+    try {
+      if (this.aborted) throw new CanceledError();
+      const chunks = await this.open(this.controller.signal);
+      for await (const chunk of chunks) {
+        if (this.aborted) throw new CanceledError();
+        const text = this.accumulate(chunk);
+        if (text) yield text;
+      }
+      if (this.aborted) throw new CanceledError();
+      this.settle(this.buildCompletion());
+    } catch (error) {
+      const normalized = this.aborted ? new CanceledError() : this.normalizeError(error);
+      this.settle(undefined, normalized);
+      throw normalized;
+    } finally {
+      // The consumer stopped reading early, so the request is no longer needed
+      if (!this.settled) {
+        this.abort();
+        this.settle(undefined, new CanceledError());
+      }
+    }
+  }
+
+  /**
+   * Resolves with the aggregated completion once the stream ends. If nothing is reading the
+   * stream, this reads it to the end.
+   */
+  finalCompletion(): Promise<ChatCompletion> {
+    if (!this.started) {
+      const iterator = this[Symbol.asyncIterator]();
+      (async () => {
+        while (!(await iterator.next()).done);
+      })().catch(() => undefined);
+    }
+    return this.completion;
+  }
+
+  // Collects a chunk and returns the text it adds to the first choice
+  private accumulate(chunk: ChatCompletionChunk): string {
+    this.chunk = chunk;
+    if (chunk.usage) this.usage = chunk.usage;
+
+    let text = '';
+    for (const choice of chunk.choices ?? []) {
+      let state = this.choices.get(choice.index);
+      if (!state) {
+        state = { content: '', refusal: '', finishReason: null, toolCalls: new Map() };
+        this.choices.set(choice.index, state);
+      }
+      const { delta } = choice;
+      if (delta?.content) {
+        state.content += delta.content;
+        if (choice.index === 0) text += delta.content;
+      }
+      if (delta?.refusal) state.refusal += delta.refusal;
+      for (const fragment of delta?.tool_calls ?? []) {
+        let call = state.toolCalls.get(fragment.index);
+        if (!call) {
+          call = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          state.toolCalls.set(fragment.index, call);
+        }
+        // The id and name come in the first fragment, the arguments are spread over the rest
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+      if (choice.finish_reason) state.finishReason = choice.finish_reason;
+    }
+    return text;
+  }
+
+  private buildCompletion(): ChatCompletion {
+    const choices = [...this.choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, state]) => {
+        const toolCalls = [...state.toolCalls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, call]) => call);
+        const message: OpenAI.Chat.ChatCompletionMessage = {
+          role: 'assistant',
+          content: state.content || null,
+          refusal: state.refusal || null,
+        };
+        if (toolCalls.length > 0) message.tool_calls = toolCalls;
+        return {
+          index,
+          message,
+          finish_reason: state.finishReason ?? 'stop',
+          logprobs: null,
+        };
+      });
+
+    return {
+      id: this.chunk?.id ?? '',
+      object: 'chat.completion',
+      created: this.chunk?.created ?? Math.floor(Date.now() / 1000),
+      model: this.chunk?.model ?? '',
+      system_fingerprint: this.chunk?.system_fingerprint,
+      choices,
+      usage: this.usage,
+    };
+  }
+
+  private settle(completion?: ChatCompletion, error?: unknown): void {
+    if (this.settled) return;
+    this.settled = true;
+    if (completion) {
+      this.onComplete?.(completion);
+      this.resolveCompletion(completion);
+    } else this.rejectCompletion(error);
+  }
+}
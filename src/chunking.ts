@@ -0,0 +1,169 @@
+export type TokenCounter = (text: string) => number;
+
+export interface ChunkOptions {
+  // Largest chunk, in tokens; defaults to 3000
+  maxTokens?: number;
+  // Tokens from the end of one chunk repeated at the start of the next; defaults to 0
+  overlap?: number;
+  // Defaults to estimateTokens; pass a real tokenizer for exact counts
+  countTokens?: TokenCounter;
+}
+
+export interface ChunkProgress {
+  stage: 'map' | 'reduce' | 'refine' | 'translate';
+  completed: number;
+  total: number;
+}
+
+interface Piece {
+  text: string;
+  tokens: number;
+  // What goes between this piece and the one before it in the same chunk
+  joiner: string;
+}
+
+// Roughly four characters per token for English text, which is what OpenAI suggests
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function splitWords(text: string, maxTokens: number, countTokens: TokenCounter): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (current && countTokens(next) > maxTokens) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+const SENTENCE_END = /(?<=[.!?؟。])\s+/;
+
+// The longest run of trailing units that fits in `budget`
+function tail(units: string[], budget: number, countTokens: TokenCounter): string {
+  let text = '';
+  for (let i = units.length - 1; i >= 0; i--) {
+    const next = text ? `${units[i]} ${text}` : units[i];
+    if (countTokens(next) > budget) break;
+    text = next;
+  }
+  return text;
+}
+
+// The end of a piece too big to carry whole: its last sentences, or failing that its last words
+function pieceTail(piece: Piece, budget: number, countTokens: TokenCounter): Piece | undefined {
+  const text =
+    tail(piece.text.split(SENTENCE_END), budget, countTokens) ||
+    tail(piece.text.split(/\s+/).filter(Boolean), budget, countTokens);
+  return text ? { text, tokens: countTokens(text), joiner: piece.joiner } : undefined;
+}
+
+// Paragraphs, falling back to sentences and then words for anything over maxTokens
+function splitPieces(text: string, maxTokens: number, countTokens: TokenCounter): Piece[] {
+  const pieces: Piece[] = [];
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    const tokens = countTokens(paragraph);
+    if (tokens <= maxTokens) {
+      pieces.push({ text: paragraph, tokens, joiner: '\n\n' });
+      continue;
+    }
+    let joiner = '\n\n';
+    for (const sentence of paragraph.split(SENTENCE_END)) {
+      const parts =
+        countTokens(sentence) <= maxTokens
+          ? [sentence]
+          : splitWords(sentence, maxTokens, countTokens);
+      for (const part of parts) {
+        pieces.push({ text: part, tokens: countTokens(part), joiner });
+        joiner = ' ';
+      }
+    }
+  }
+  return pieces;
+}
+
+function joinPieces(pieces: Piece[]): string {
+  return pieces
+    .map((piece, index) => (index === 0 ? piece.text : piece.joiner + piece.text))
+    .join('');
+}
+
+/**
+ * Splits text into chunks of at most `maxTokens`, breaking between paragraphs where possible so
+ * each chunk keeps its paragraph structure.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const { maxTokens = 3000, overlap = 0, countTokens = estimateTokens } = options;
+  if (overlap >= maxTokens) {
+    throw new Error('Chunk overlap must be smaller than maxTokens');
+  }
+
+  const chunks: string[] = [];
+  let current: Piece[] = [];
+  let currentTokens = 0;
+
+  for (const piece of splitPieces(text, maxTokens, countTokens)) {
+    if (current.length > 0 && currentTokens + piece.tokens > maxTokens) {
+      chunks.push(joinPieces(current));
+
+      // Carry the trailing pieces that fit in the overlap into the next chunk, topped up with the
+      // end of the first piece that doesn't
+      const carried: Piece[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carriedTokens + current[i].tokens > overlap) {
+          const partial = pieceTail(current[i], overlap - carriedTokens, countTokens);
+          if (partial) {
+            carried.unshift(partial);
+            carriedTokens += partial.tokens;
+          }
+          break;
+        }
+        carried.unshift(current[i]);
+        carriedTokens += current[i].tokens;
+      }
+      while (carried.length > 0 && carriedTokens + piece.tokens > maxTokens) {
+        carriedTokens -= carried.shift()!.tokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+    }
+    current.push(piece);
+    currentTokens += piece.tokens;
+  }
+  if (current.length > 0) chunks.push(joinPieces(current));
+
+  return chunks;
+}
+
+/**
+ * Like `Promise.all(items.map(fn))` but with at most `limit` calls running at once. Results
+ * keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
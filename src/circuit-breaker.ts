@@ -0,0 +1,195 @@
+import { CircuitOpenError } from './errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerScope =
+  | 'global'
+  | 'host'
+  | 'route'
+  | ((method: string, url: string) => string);
+
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  error?: any;
+}
+
+export interface CircuitBreakerConfig {
+  // Defaults to one breaker per host
+  scope?: CircuitBreakerScope;
+  // Consecutive failures that open the breaker
+  failureThreshold?: number;
+  // Failure ratio (0-1) over the last `windowSize` calls that opens the breaker
+  failureRateThreshold?: number;
+  windowSize?: number;
+  // Calls needed in the window before `failureRateThreshold` applies
+  minimumRequests?: number;
+  // How long the breaker stays open before letting probe requests through
+  resetTimeout?: number;
+  // Concurrent probe requests allowed while half-open
+  halfOpenMaxCalls?: number;
+  isFailure?: (error: any) => boolean;
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number;
+  calls: number;
+  openedAt: number | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  outcomes: boolean[];
+  openedAt: number;
+  probes: number;
+}
+
+// Network errors, timeouts and 5xx responses count against the upstream; 4xx responses don't
+export function isUpstreamFailure(error: any): boolean {
+  if (error?.code === 'ERR_CANCELED') return false;
+  const status = error?.status ?? error?.response?.status;
+  return typeof status !== 'number' || status >= 500;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private windowSize: number;
+  private minimumRequests: number;
+  private resetTimeout: number;
+  private halfOpenMaxCalls: number;
+
+  constructor(private config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.windowSize = config.windowSize ?? 20;
+    this.minimumRequests = config.minimumRequests ?? 10;
+    this.resetTimeout = config.resetTimeout ?? 30000;
+    this.halfOpenMaxCalls = config.halfOpenMaxCalls ?? 1;
+  }
+
+  /**
+   * Throws a `CircuitOpenError` when calls to `key` should fail fast. Every call that passes
+   * must be followed by `onSuccess`, `onFailure` or `onIgnored`.
+   */
+  beforeRequest(key: string): void {
+    const circuit = this.getCircuit(key);
+    const now = Date.now();
+
+    if (circuit.state === 'open') {
+      const retryAfter = circuit.openedAt + this.resetTimeout - now;
+      if (retryAfter > 0) {
+        throw new CircuitOpenError(key, retryAfter);
+      }
+      this.transition(key, circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.probes >= this.halfOpenMaxCalls) {
+        throw new CircuitOpenError(key, 0);
+      }
+      circuit.probes++;
+    }
+  }
+
+  onSuccess(key: string): void {
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      this.reset(circuit);
+      this.transition(key, circuit, 'closed');
+      return;
+    }
+    circuit.consecutiveFailures = 0;
+    this.recordOutcome(circuit, true);
+  }
+
+  onFailure(key: string, error?: any): void {
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      this.open(key, circuit, error);
+      return;
+    }
+    if (circuit.state === 'open') return;
+
+    circuit.consecutiveFailures++;
+    this.recordOutcome(circuit, false);
+    if (this.shouldOpen(circuit)) {
+      this.open(key, circuit, error);
+    }
+  }
+
+  // For calls that ended without telling us anything about the upstream, e.g. cancelled ones
+  onIgnored(key: string): void {
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'half-open') {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+    }
+  }
+
+  isFailure(error: any): boolean {
+    return (this.config.isFailure || isUpstreamFailure)(error);
+  }
+
+  getState(key: string): CircuitState {
+    return this.circuits.get(key)?.state || 'closed';
+  }
+
+  getStates(): Record<string, CircuitStatus> {
+    const states: Record<string, CircuitStatus> = {};
+    for (const [key, circuit] of this.circuits) {
+      states[key] = {
+        state: circuit.state,
+        failures: circuit.outcomes.filter((ok) => !ok).length,
+        calls: circuit.outcomes.length,
+        openedAt: circuit.state === 'closed' ? null : circuit.openedAt,
+      };
+    }
+    return states;
+  }
+
+  private shouldOpen(circuit: Circuit): boolean {
+    if (circuit.consecutiveFailures >= this.failureThreshold) return true;
+    const rate = this.config.failureRateThreshold;
+    if (rate === undefined || circuit.outcomes.length < this.minimumRequests) return false;
+    const failures = circuit.outcomes.filter((ok) => !ok).length;
+    return failures / circuit.outcomes.length >= rate;
+  }
+
+  private recordOutcome(circuit: Circuit, ok: boolean): void {
+    circuit.outcomes.push(ok);
+    if (circuit.outcomes.length > this.windowSize) {
+      circuit.outcomes.shift();
+    }
+  }
+
+  private open(key: string, circuit: Circuit, error?: any): void {
+    circuit.openedAt = Date.now();
+    this.transition(key, circuit, 'open', error);
+  }
+
+  private reset(circuit: Circuit): void {
+    circuit.consecutiveFailures = 0;
+    circuit.outcomes = [];
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState, error?: any): void {
+    const from = circuit.state;
+    if (from === to) return;
+    circuit.state = to;
+    this.config.onStateChange?.({ key, from, to, error });
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, outcomes: [], openedAt: 0, probes: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+}
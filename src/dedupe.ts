@@ -0,0 +1,87 @@
+import { CanceledError, GenericAbortSignal } from 'axios';
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiting: number;
+}
+
+/**
+ * Lets concurrent callers with the same key share one in-flight operation. The operation gets
+ * its own abort signal, which only fires once every caller waiting on it has aborted.
+ */
+export class RequestCoalescer<T> {
+  private inFlight = new Map<string, InFlight<T>>();
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  run(
+    key: string,
+    signal: GenericAbortSignal | undefined,
+    execute: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlight<T> = {
+        controller,
+        waiting: 0,
+        promise: Promise.resolve()
+          .then(() => execute(controller.signal))
+          .finally(() => {
+            if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+          }),
+      };
+      entry = created;
+      this.inFlight.set(key, entry);
+    }
+
+    const shared = entry;
+    shared.waiting++;
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+          shared.controller.abort();
+        }
+        reject(new CanceledError());
+      };
+      signal?.addEventListener?.('abort', onAbort);
+
+      shared.promise.then(
+        (value) => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener?.('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          if (settled) return;
+          settled = true;
+          signal?.removeEventListener?.('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+export function cloneData<T>(value: T): T {
+  if (value === null || typeof value !== 'object') return value;
+  try {
+    return structuredClone(value);
+  } catch {
+    // Values structuredClone can't handle (functions, class instances with handles) are shared
+    return value;
+  }
+}
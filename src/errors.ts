@@ -0,0 +1,248 @@
+import type { GraphQLErrorDetail, GraphQLLocation } from './graphql.js';
+import { getServerDelay } from './retry.js';
+
+export interface HttpErrorDetails {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, any>;
+  body?: any;
+  method?: string;
+  url?: string;
+  cause?: unknown;
+}
+
+export interface AttemptRecord {
+  attempt: number;
+  error: Error;
+  // Delay before the next attempt, if there was one
+  delay?: number;
+  timestamp: number;
+}
+
+/**
+ * Base class for every error the wrapper throws. `code` is stable across releases and `cause`
+ * holds the underlying error (usually the original Axios or OpenAI SDK error).
+ */
+export class WrapperError extends Error {
+  public readonly code: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, code: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class HttpError extends WrapperError {
+  public readonly status: number;
+  public readonly statusText: string;
+  public readonly headers: Record<string, any>;
+  public readonly body: any;
+  public readonly method?: string;
+  public readonly url?: string;
+
+  constructor(details: HttpErrorDetails, code = 'HTTP_ERROR') {
+    super(`Request failed with status code ${details.status}`, code, details.cause);
+    this.status = details.status;
+    this.statusText = details.statusText || '';
+    this.headers = details.headers || {};
+    this.body = details.body;
+    this.method = details.method;
+    this.url = details.url;
+  }
+}
+
+export class AuthError extends HttpError {
+  constructor(details: HttpErrorDetails) {
+    super(details, 'AUTH_ERROR');
+  }
+}
+
+export class RateLimitError extends HttpError {
+  // Milliseconds the server asked us to wait, when it said so
+  public readonly retryAfter?: number;
+
+  constructor(details: HttpErrorDetails) {
+    super(details, 'RATE_LIMITED');
+    this.retryAfter = getServerDelay(details.headers);
+  }
+}
+
+export class TimeoutError extends WrapperError {
+  constructor(message = 'Request timed out', cause?: unknown) {
+    super(message, 'TIMEOUT', cause);
+  }
+}
+
+export class NetworkError extends WrapperError {
+  // The low-level error code, e.g. ECONNREFUSED
+  public readonly errorCode?: string;
+
+  constructor(message: string, errorCode?: string, cause?: unknown) {
+    super(message, 'NETWORK_ERROR', cause);
+    this.errorCode = errorCode;
+  }
+}
+
+export class GraphQLError extends WrapperError {
+  public readonly errors: GraphQLErrorDetail[];
+  // Partial data the server returned alongside the errors
+  public readonly data?: any;
+
+  constructor(errors: GraphQLErrorDetail[], data?: any, cause?: unknown) {
+    super(errors[0]?.message || 'GraphQL request failed', 'GRAPHQL_ERROR', cause);
+    this.errors = errors;
+    this.data = data;
+  }
+
+  get path(): Array<string | number> | undefined {
+    return this.errors[0]?.path;
+  }
+
+  get locations(): GraphQLLocation[] | undefined {
+    return this.errors[0]?.locations;
+  }
+
+  get extensions(): Record<string, any> | undefined {
+    return this.errors[0]?.extensions;
+  }
+}
+
+export class RpcError extends WrapperError {
+  // The error code the remote side sent, e.g. -32601 for a JSON-RPC unknown method
+  public readonly rpcCode?: number | string;
+  public readonly data?: any;
+
+  constructor(message: string, rpcCode?: number | string, data?: any) {
+    super(message, 'RPC_ERROR');
+    this.rpcCode = rpcCode;
+    this.data = data;
+  }
+}
+
+export class StructuredOutputError extends WrapperError {
+  constructor(
+    message: string,
+    // Schema violations in the last response, with `$`-rooted paths
+    public readonly errors: string[],
+    // The model's last raw reply
+    public readonly output: string | null,
+    public readonly attempts: number
+  ) {
+    super(message, 'STRUCTURED_OUTPUT_INVALID');
+  }
+}
+
+export class BudgetExceededError extends WrapperError {
+  constructor(
+    // Estimated spend so far, in US dollars
+    public readonly spent: number,
+    public readonly budget: number
+  ) {
+    super(`Usage budget of $${budget} exceeded ($${spent.toFixed(4)} spent)`, 'BUDGET_EXCEEDED');
+  }
+}
+
+export class CassetteMismatchError extends WrapperError {
+  constructor(
+    public readonly method: string,
+    public readonly url: string
+  ) {
+    super(`No recorded response for ${method} ${url}`, 'CASSETTE_MISMATCH');
+  }
+}
+
+export class OpenAPIValidationError extends WrapperError {
+  constructor(
+    public readonly operationId: string,
+    // Problems with the call's parameters and body, with `$`-rooted paths
+    public readonly errors: string[]
+  ) {
+    super(`Invalid call to ${operationId}: ${errors.join('; ')}`, 'OPENAPI_VALIDATION');
+  }
+}
+
+export class RetryExhaustedError extends WrapperError {
+  public readonly attempts: AttemptRecord[];
+
+  constructor(attempts: AttemptRecord[]) {
+    const last = attempts[attempts.length - 1]?.error;
+    super(
+      `Request failed after ${attempts.length} attempts: ${last?.message || 'unknown error'}`,
+      'RETRY_EXHAUSTED',
+      last
+    );
+    this.attempts = attempts;
+  }
+
+  get lastError(): Error | undefined {
+    return this.attempts[this.attempts.length - 1]?.error;
+  }
+}
+
+export class CircuitOpenError extends WrapperError {
+  constructor(
+    public readonly key: string,
+    // Milliseconds until the breaker lets a probe request through
+    public readonly retryAfter: number
+  ) {
+    super(`Circuit breaker is open for ${key}`, 'CIRCUIT_OPEN');
+  }
+}
+
+function parseBody(data: any): any {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+}
+
+/**
+ * Picks the most specific HTTP error class for a status code.
+ */
+export function createHttpError(details: HttpErrorDetails): HttpError {
+  const normalized = { ...details, body: parseBody(details.body) };
+  if (details.status === 401 || details.status === 403) return new AuthError(normalized);
+  if (details.status === 429) return new RateLimitError(normalized);
+  return new HttpError(normalized);
+}
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Converts Axios errors into the wrapper's error classes. Cancellations and errors that didn't
+ * come from the HTTP layer are returned unchanged.
+ */
+export function normalizeError(error: any): any {
+  if (error instanceof WrapperError || !error || error.code === 'ERR_CANCELED') {
+    return error;
+  }
+
+  const config = error.config || {};
+  if (error.response) {
+    const headers = error.response.headers;
+    return createHttpError({
+      status: error.response.status,
+      statusText: error.response.statusText,
+      headers: headers && typeof headers.toJSON === 'function' ? headers.toJSON() : headers,
+      body: error.response.data,
+      method: config.method?.toUpperCase(),
+      url: config.url,
+      cause: error,
+    });
+  }
+
+  if (TIMEOUT_CODES.includes(error.code)) {
+    return new TimeoutError(error.message, error);
+  }
+  if (error.isAxiosError || typeof error.code === 'string') {
+    return new NetworkError(error.message || 'Network error', error.code, error);
+  }
+  return error;
+}
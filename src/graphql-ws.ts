@@ -0,0 +1,301 @@
+import { GenericAbortSignal } from 'axios';
+import WebSocket from 'ws';
+import { AuthError, GraphQLError, NetworkError, TimeoutError } from './errors.js';
+import { GraphQLResult } from './graphql.js';
+
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+export interface GraphQLWebSocketConfig {
+  // How long the server has to answer connection_init with connection_ack
+  ackTimeout?: number;
+  // Send a ping this often and drop the socket if the previous one wasn't answered; 0 disables
+  pingInterval?: number;
+  // Extra connection_init payload, merged over the auth headers
+  connectionParams?:
+    | Record<string, any>
+    | (() => Record<string, any> | Promise<Record<string, any>>);
+}
+
+export interface GraphQLWSClientOptions extends GraphQLWebSocketConfig {
+  // Resolved on every connect; sent on the upgrade request and in the connection_init payload
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+}
+
+export interface GraphQLSubscribeOptions {
+  operationName?: string;
+  extensions?: Record<string, any>;
+  signal?: GenericAbortSignal;
+}
+
+export interface GraphQLSubscription<T = any> extends AsyncIterableIterator<GraphQLResult<T>> {
+  unsubscribe(): void;
+}
+
+interface Message {
+  type: string;
+  id?: string;
+  payload?: any;
+}
+
+/**
+ * Buffers the results of one subscription until the consumer pulls them.
+ */
+class SubscriptionSink<T> implements GraphQLSubscription<T> {
+  public started = false;
+  private values: GraphQLResult<T>[] = [];
+  private waiting: Array<{
+    resolve: (result: IteratorResult<GraphQLResult<T>>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error: unknown = null;
+
+  constructor(private onUnsubscribe: () => void) {}
+
+  push(value: GraphQLResult<T>): void {
+    if (this.done) return;
+    const waiter = this.waiting.shift();
+    if (waiter) waiter.resolve({ value, done: false });
+    else this.values.push(value);
+  }
+
+  fail(error: unknown): void {
+    if (this.done) return;
+    this.done = true;
+    this.error = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  end(): void {
+    if (this.done) return;
+    this.done = true;
+    for (const waiter of this.waiting.splice(0)) waiter.resolve({ value: undefined, done: true });
+  }
+
+  next(): Promise<IteratorResult<GraphQLResult<T>>> {
+    if (this.values.length > 0) {
+      return Promise.resolve({ value: this.values.shift()!, done: false });
+    }
+    if (this.done) {
+      if (this.error) {
+        const error = this.error;
+        this.error = null;
+        return Promise.reject(error);
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async return(): Promise<IteratorResult<GraphQLResult<T>>> {
+    this.unsubscribe();
+    return { value: undefined, done: true };
+  }
+
+  unsubscribe(): void {
+    if (this.done) return;
+    this.end();
+    this.onUnsubscribe();
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+}
+
+function closeError(code: number, reason: string): Error {
+  const message = `GraphQL WebSocket closed with code ${code}${reason ? `: ${reason}` : ''}`;
+  if (code === 4401 || code === 4403) {
+    return new AuthError({ status: code === 4401 ? 401 : 403, body: reason || message });
+  }
+  return new NetworkError(message, String(code));
+}
+
+/**
+ * Client for the `graphql-transport-ws` protocol. All subscriptions share one socket, which is
+ * opened on the first subscription and closed after the last one ends.
+ */
+export class GraphQLWSClient {
+  private socket: WebSocket | null = null;
+  private ready: Promise<WebSocket> | null = null;
+  private sinks = new Map<string, SubscriptionSink<any>>();
+  private lastId = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private awaitingPong = false;
+
+  constructor(
+    private url: string,
+    private options: GraphQLWSClientOptions = {}
+  ) {}
+
+  get activeSubscriptions(): number {
+    return this.sinks.size;
+  }
+
+  subscribe<T = any>(
+    query: string,
+    variables: Record<string, any> = {},
+    options: GraphQLSubscribeOptions = {}
+  ): GraphQLSubscription<T> {
+    const id = String(++this.lastId);
+    const sink = new SubscriptionSink<T>(() => this.stop(id));
+    this.sinks.set(id, sink);
+
+    if (options.signal?.aborted) {
+      sink.unsubscribe();
+      return sink;
+    }
+    options.signal?.addEventListener?.('abort', () => sink.unsubscribe());
+
+    this.connect().then(
+      (socket) => {
+        if (!this.sinks.has(id)) {
+          // Everyone unsubscribed while the socket was still connecting
+          if (this.sinks.size === 0) this.close();
+          return;
+        }
+        sink.started = true;
+        const { operationName, extensions } = options;
+        this.send(socket, {
+          id,
+          type: 'subscribe',
+          payload: { query, variables, operationName, extensions },
+        });
+      },
+      (error) => {
+        this.sinks.delete(id);
+        sink.fail(error);
+      }
+    );
+    return sink;
+  }
+
+  close(): void {
+    const socket = this.socket;
+    for (const sink of this.sinks.values()) sink.end();
+    this.sinks.clear();
+    this.reset();
+    socket?.close(1000, 'Normal Closure');
+  }
+
+  private stop(id: string): void {
+    const sink = this.sinks.get(id);
+    if (!sink) return;
+    this.sinks.delete(id);
+    if (sink.started && this.socket?.readyState === WebSocket.OPEN) {
+      this.send(this.socket, { id, type: 'complete' });
+    }
+    if (this.sinks.size === 0) this.close();
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (!this.ready) {
+      this.ready = this.open().catch((error) => {
+        this.reset();
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async open(): Promise<WebSocket> {
+    const headers = (await this.options.getHeaders?.()) || {};
+    const { connectionParams } = this.options;
+    const params =
+      typeof connectionParams === 'function' ? await connectionParams() : connectionParams;
+    const socket = new WebSocket(this.url, GRAPHQL_TRANSPORT_WS_PROTOCOL, { headers });
+    this.socket = socket;
+
+    return new Promise((resolve, reject) => {
+      const ackTimer = setTimeout(() => {
+        reject(new TimeoutError('GraphQL WebSocket connection was not acknowledged in time'));
+        socket.close(4408, 'Connection acknowledgement timeout');
+      }, this.options.ackTimeout ?? 10000);
+
+      socket.on('open', () => {
+        this.send(socket, { type: 'connection_init', payload: { ...headers, ...params } });
+      });
+      socket.on('message', (raw) => {
+        let message: Message;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          socket.close(4400, 'Invalid message received');
+          return;
+        }
+        if (message.type === 'connection_ack') {
+          clearTimeout(ackTimer);
+          this.startPing(socket);
+          resolve(socket);
+          return;
+        }
+        this.handleMessage(socket, message);
+      });
+      // 'close' always follows 'error', so failures are reported from there
+      socket.on('error', () => undefined);
+      socket.on('close', (code, reason) => {
+        clearTimeout(ackTimer);
+        const error = closeError(code, reason.toString());
+        reject(error);
+        this.handleClose(socket, error);
+      });
+    });
+  }
+
+  private handleMessage(socket: WebSocket, message: Message): void {
+    const sink = message.id !== undefined ? this.sinks.get(message.id) : undefined;
+    switch (message.type) {
+      case 'ping':
+        this.send(socket, { type: 'pong' });
+        break;
+      case 'pong':
+        this.awaitingPong = false;
+        break;
+      case 'next':
+        sink?.push(message.payload);
+        break;
+      case 'error':
+        this.sinks.delete(message.id!);
+        sink?.fail(new GraphQLError(Array.isArray(message.payload) ? message.payload : []));
+        if (this.sinks.size === 0) this.close();
+        break;
+      case 'complete':
+        this.sinks.delete(message.id!);
+        sink?.end();
+        if (this.sinks.size === 0) this.close();
+        break;
+    }
+  }
+
+  private handleClose(socket: WebSocket, error: Error): void {
+    if (socket !== this.socket) return;
+    this.reset();
+    for (const sink of this.sinks.values()) sink.fail(error);
+    this.sinks.clear();
+  }
+
+  private startPing(socket: WebSocket): void {
+    const interval = this.options.pingInterval ?? 0;
+    if (interval <= 0) return;
+    this.awaitingPong = false;
+    this.pingTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        socket.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      this.send(socket, { type: 'ping' });
+    }, interval);
+  }
+
+  private reset(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.socket = null;
+    this.ready = null;
+  }
+
+  private send(socket: WebSocket, message: Message): void {
+    socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,155 @@
+import { GenericAbortSignal } from 'axios';
+import { createHash } from 'crypto';
+import { GraphQLError } from './errors.js';
+
+export interface GraphQLLocation {
+  line: number;
+  column: number;
+}
+
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: Array<string | number>;
+  locations?: GraphQLLocation[];
+  extensions?: Record<string, any>;
+}
+
+export interface GraphQLResult<T = any> {
+  data?: T | null;
+  errors?: GraphQLErrorDetail[];
+  extensions?: Record<string, any>;
+}
+
+// 'response' resolves with the Axios response, 'data' with the unwrapped `data` field
+export type GraphQLResultMode = 'response' | 'data';
+
+// 'none' rejects whenever `errors` is present; 'all' resolves with whatever `data` came back
+export type GraphQLErrorPolicy = 'none' | 'all';
+
+export interface GraphQLOptions {
+  operationName?: string;
+  headers?: Record<string, string>;
+  resultMode?: GraphQLResultMode;
+  errorPolicy?: GraphQLErrorPolicy;
+  // Queries are cached and retried by default, mutations only when this is set to true
+  cache?: boolean;
+  retry?: boolean;
+  // Overrides `graphqlPersistedQueries` for this call
+  persistedQuery?: boolean;
+  // Overrides `graphqlUseGET`; mutations are always sent as POST
+  useGET?: boolean;
+  signal?: GenericAbortSignal;
+}
+
+export type PersistedQueryError = 'PersistedQueryNotFound' | 'PersistedQueryNotSupported';
+
+const PERSISTED_QUERY_CODES: Record<string, PersistedQueryError> = {
+  PERSISTED_QUERY_NOT_FOUND: 'PersistedQueryNotFound',
+  PERSISTED_QUERY_NOT_SUPPORTED: 'PersistedQueryNotSupported',
+};
+
+export function buildGraphQLBody(
+  query: string,
+  variables: Record<string, any>,
+  operationName?: string
+): Record<string, any> {
+  return operationName ? { query, variables, operationName } : { query, variables };
+}
+
+export function parseGraphQLResult(body: any): GraphQLResult {
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new GraphQLError([{ message: 'GraphQL response is not valid JSON' }]);
+    }
+  }
+  if (!body || typeof body !== 'object') {
+    throw new GraphQLError([{ message: 'GraphQL response has no body' }]);
+  }
+  return body;
+}
+
+/**
+ * Throws a `GraphQLError` when the result carries `errors`, unless the error policy accepts
+ * partial data and some `data` came back. Returns the parsed result otherwise.
+ */
+export function checkGraphQLResult(
+  body: any,
+  errorPolicy: GraphQLErrorPolicy = 'none'
+): GraphQLResult {
+  const result = parseGraphQLResult(body);
+  const errors = Array.isArray(result.errors) ? result.errors : [];
+  const hasData = result.data !== undefined && result.data !== null;
+  if (errors.length > 0 && (errorPolicy === 'none' || !hasData)) {
+    throw new GraphQLError(errors, result.data ?? undefined);
+  }
+  return result;
+}
+
+export function hashQuery(query: string): string {
+  return createHash('sha256').update(query).digest('hex');
+}
+
+/**
+ * Turns a GraphQL request body into GET query parameters, with objects JSON-encoded as the
+ * GraphQL over HTTP convention expects.
+ */
+export function toGraphQLParams(body: Record<string, any>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (value !== undefined) {
+      params[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  }
+  return params;
+}
+
+// Apollo servers report APQ misses by message, newer ones also by extension code
+export function getPersistedQueryError(body: any): PersistedQueryError | undefined {
+  const errors = body && typeof body === 'object' && Array.isArray(body.errors) ? body.errors : [];
+  for (const error of errors) {
+    if (PERSISTED_QUERY_CODES[error?.extensions?.code]) {
+      return PERSISTED_QUERY_CODES[error.extensions.code];
+    }
+    if (Object.values(PERSISTED_QUERY_CODES).includes(error?.message)) {
+      return error.message;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remembers which query hashes each endpoint has confirmed, and which endpoints don't
+ * support persisted queries at all.
+ */
+export class PersistedQueryRegistry {
+  private known = new Map<string, Set<string>>();
+  private unsupported = new Set<string>();
+
+  isSupported(endpoint: string): boolean {
+    return !this.unsupported.has(endpoint);
+  }
+
+  isKnown(endpoint: string, hash: string): boolean {
+    return this.known.get(endpoint)?.has(hash) || false;
+  }
+
+  markKnown(endpoint: string, hash: string): void {
+    let hashes = this.known.get(endpoint);
+    if (!hashes) {
+      hashes = new Set();
+      this.known.set(endpoint, hashes);
+    }
+    hashes.add(hash);
+  }
+
+  forget(endpoint: string, hash: string): void {
+    this.known.get(endpoint)?.delete(hash);
+  }
+
+  markUnsupported(endpoint: string): void {
+    this.unsupported.add(endpoint);
+    this.known.delete(endpoint);
+  }
+}
@@ -0,0 +1,180 @@
+import { AxiosHeaders, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { cloneData } from './dedupe.js';
+
+export type CacheMode = 'simple' | 'http';
+
+export interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: any;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface CacheControl {
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+}
+
+export type WrapperResponse<T = any> = AxiosResponse<T> & {
+  fromCache: boolean;
+  revalidated: boolean;
+};
+
+// Statuses we store; anything else is passed through untouched
+const STORABLE_STATUSES = [200, 203, 204];
+
+export function toPlainHeaders(headers: any): Record<string, string> {
+  const source = headers && typeof headers.toJSON === 'function' ? headers.toJSON() : headers;
+  const plain: Record<string, string> = {};
+  for (const [name, value] of Object.entries(source || {})) {
+    if (value !== undefined && value !== null) {
+      plain[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return plain;
+}
+
+export function parseCacheControl(header?: string): CacheControl {
+  const control: CacheControl = { noStore: false, noCache: false, private: false };
+  for (const directive of (header || '').split(',')) {
+    const [rawName, rawValue] = directive.split('=');
+    const name = rawName.trim().toLowerCase();
+    const seconds = Number((rawValue || '').trim().replace(/"/g, ''));
+    switch (name) {
+      case 'max-age':
+        if (Number.isFinite(seconds)) control.maxAge = seconds;
+        break;
+      case 's-maxage':
+        if (Number.isFinite(seconds)) control.sMaxAge = seconds;
+        break;
+      case 'stale-while-revalidate':
+        if (Number.isFinite(seconds)) control.staleWhileRevalidate = seconds;
+        break;
+      case 'no-store':
+        control.noStore = true;
+        break;
+      case 'no-cache':
+        control.noCache = true;
+        break;
+      case 'private':
+        control.private = true;
+        break;
+    }
+  }
+  return control;
+}
+
+/**
+ * Builds a cache entry for a response, or returns `undefined` when HTTP semantics say it must
+ * not be stored. `defaultTTL` is used when the response carries no freshness information.
+ */
+export function createHttpCacheEntry(
+  response: Pick<AxiosResponse, 'status' | 'statusText' | 'headers' | 'data'>,
+  defaultTTL: number,
+  shared: boolean,
+  now: number = Date.now()
+): CachedResponse | undefined {
+  if (!STORABLE_STATUSES.includes(response.status)) return undefined;
+  const headers = toPlainHeaders(response.headers);
+  const control = parseCacheControl(headers['cache-control']);
+  if (control.noStore || (shared && control.private)) return undefined;
+
+  const etag = headers['etag'];
+  const lastModified = headers['last-modified'];
+  const freshness = control.noCache ? 0 : getFreshness(headers, control, defaultTTL, shared, now);
+  if (freshness <= 0 && !etag && !lastModified && !control.staleWhileRevalidate) {
+    return undefined;
+  }
+
+  const freshUntil = now + freshness;
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    data: response.data,
+    storedAt: now,
+    freshUntil,
+    staleUntil: freshUntil + (control.staleWhileRevalidate || 0) * 1000,
+    etag,
+    lastModified,
+  };
+}
+
+function getFreshness(
+  headers: Record<string, string>,
+  control: CacheControl,
+  defaultTTL: number,
+  shared: boolean,
+  now: number
+): number {
+  if (shared && control.sMaxAge !== undefined) return control.sMaxAge * 1000;
+  if (control.maxAge !== undefined) {
+    const age = Number(headers['age']) || 0;
+    return (control.maxAge - age) * 1000;
+  }
+  if (headers['expires']) {
+    const expires = Date.parse(headers['expires']);
+    return Number.isNaN(expires) ? 0 : expires - now;
+  }
+  return defaultTTL;
+}
+
+/**
+ * Applies the headers of a 304 response to a stored entry and restarts its freshness.
+ */
+export function refreshHttpCacheEntry(
+  entry: CachedResponse,
+  notModifiedHeaders: any,
+  defaultTTL: number,
+  shared: boolean,
+  now: number = Date.now()
+): CachedResponse {
+  const headers = { ...entry.headers, ...toPlainHeaders(notModifiedHeaders) };
+  const refreshed = createHttpCacheEntry(
+    { status: entry.status, statusText: entry.statusText, headers, data: entry.data },
+    defaultTTL,
+    shared,
+    now
+  );
+  return refreshed || { ...entry, headers, storedAt: now, freshUntil: now, staleUntil: now };
+}
+
+export function getConditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers['If-None-Match'] = entry.etag;
+  if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+  return headers;
+}
+
+// How long the store should keep an entry: while it can be served, plus time to revalidate it
+export function getStoreTTL(entry: CachedResponse, defaultTTL: number, now = Date.now()) {
+  const servable = Math.max(0, entry.staleUntil - now);
+  return entry.etag || entry.lastModified ? servable + defaultTTL : servable;
+}
+
+export function toWrapperResponse<T = any>(
+  entry: CachedResponse,
+  config: AxiosRequestConfig,
+  revalidated: boolean
+): WrapperResponse<T> {
+  return {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: new AxiosHeaders(entry.headers),
+    // Each hit gets its own copy of the stored data
+    data: cloneData(entry.data),
+    config: config as any,
+    request: undefined,
+    fromCache: true,
+    revalidated,
+  };
+}
@@ -0,0 +1,194 @@
+import { AxiosHeaders, AxiosResponse } from 'axios';
+import type { RequestOptions } from './app.js';
+import type { WrapperResponse } from './http-cache.js';
+
+/**
+ * Where a middleware runs. Calls pass through the stages from the outside in:
+ *
+ * 1. `request` middleware, once per call
+ * 2. request deduplication and the response cache
+ * 3. the retry loop, with the circuit breaker and rate limiter
+ * 4. auth headers, added on every attempt
+ * 5. `attempt` middleware, once per attempt
+ * 6. Axios, which serializes the body; request signing (`auth.signer`) happens after that
+ */
+export type MiddlewareStage = 'request' | 'attempt';
+
+export interface MiddlewareContext {
+  stage: MiddlewareStage;
+  // Upper case
+  method: string;
+  endpoint: string;
+  // Changes are seen by the middleware further in and by the request itself. At the attempt
+  // stage the wrapper's own options have been removed and `headers` is an AxiosHeaders
+  // instance that already carries the auth headers.
+  options: RequestOptions;
+  // Zero-based; only set at the attempt stage
+  attempt?: number;
+}
+
+/**
+ * Onion-style middleware: code before `await next()` sees the request, code after it sees the
+ * response. Returning without calling `next` answers the call without sending anything, and
+ * wrapping `next` in try/catch handles its errors. Errors reaching request middleware have been
+ * normalized into WrapperErrors; attempt middleware sees the raw Axios errors, before the retry
+ * loop decides whether to try again.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<WrapperResponse>
+) => Promise<WrapperResponse>;
+
+export interface UseOptions {
+  // Defaults to 'request'
+  stage?: MiddlewareStage;
+}
+
+// Runs `stack` in order around `send`; the first middleware is the outermost
+export function runMiddleware(
+  stack: Middleware[],
+  context: MiddlewareContext,
+  send: (context: MiddlewareContext) => Promise<WrapperResponse>
+): Promise<WrapperResponse> {
+  const dispatch = async (index: number): Promise<WrapperResponse> => {
+    if (index === stack.length) return send(context);
+    let called = false;
+    return stack[index](context, () => {
+      if (called) {
+        return Promise.reject(new Error('next() called more than once by the same middleware'));
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+  return dispatch(0);
+}
+
+export interface ResponseOptions {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+}
+
+// Builds a response for middleware that answers a call itself
+export function createResponse<T = any>(
+  context: MiddlewareContext,
+  data: T,
+  options: ResponseOptions = {}
+): WrapperResponse<T> {
+  return {
+    status: options.status ?? 200,
+    statusText: options.statusText ?? 'OK',
+    headers: new AxiosHeaders(options.headers),
+    data,
+    config: { ...context.options, method: context.method, url: context.endpoint } as any,
+    request: undefined,
+    fromCache: false,
+    revalidated: false,
+  };
+}
+
+export interface LogEntry {
+  stage: MiddlewareStage;
+  method: string;
+  endpoint: string;
+  attempt?: number;
+  // Missing when the request failed without a response
+  status?: number;
+  fromCache?: boolean;
+  duration: number;
+  error?: unknown;
+}
+
+export interface LoggingOptions {
+  // Defaults to one console line per call
+  log?: (entry: LogEntry) => void;
+}
+
+function defaultLog(entry: LogEntry): void {
+  const attempt = entry.attempt !== undefined ? ` (attempt ${entry.attempt + 1})` : '';
+  const result = entry.error
+    ? `failed${entry.status ? ` with ${entry.status}` : ''}: ${(entry.error as Error).message}`
+    : `${entry.status}${entry.fromCache ? ' from cache' : ''}`;
+  const line = `${entry.method} ${entry.endpoint}${attempt} ${result} in ${entry.duration}ms`;
+  if (entry.error) console.warn(line);
+  else console.info(line);
+}
+
+// Logs the outcome and duration of every call (or attempt, at the attempt stage)
+export function loggingMiddleware(options: LoggingOptions = {}): Middleware {
+  const log = options.log ?? defaultLog;
+  return async (context, next) => {
+    const { stage, method, endpoint, attempt } = context;
+    const start = Date.now();
+    try {
+      const response = await next();
+      log({
+        stage,
+        method,
+        endpoint,
+        attempt,
+        status: response.status,
+        fromCache: response.fromCache,
+        duration: Date.now() - start,
+      });
+      return response;
+    } catch (error: any) {
+      log({
+        stage,
+        method,
+        endpoint,
+        attempt,
+        status: error?.status ?? error?.response?.status,
+        duration: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
+  };
+}
+
+export type HeaderSource =
+  | Record<string, string>
+  | ((context: MiddlewareContext) => Record<string, string> | Promise<Record<string, string>>);
+
+export interface HeaderMiddlewareOptions {
+  // Replace headers the call already has; by default headers passed to the call win
+  override?: boolean;
+}
+
+// Adds headers to every request. Names are matched case-insensitively.
+export function headerMiddleware(
+  headers: HeaderSource,
+  options: HeaderMiddlewareOptions = {}
+): Middleware {
+  return async (context, next) => {
+    const values = typeof headers === 'function' ? await headers(context) : headers;
+    const merged = new AxiosHeaders(context.options.headers as any);
+    for (const [name, value] of Object.entries(values)) {
+      merged.set(name, value, options.override ?? false);
+    }
+    context.options.headers = merged;
+    return next();
+  };
+}
+
+export interface BodyTransformOptions {
+  // Replaces the request body before it is sent (and before it becomes part of the cache key)
+  request?: (data: any, context: MiddlewareContext) => any;
+  // Replaces the response body
+  response?: (data: any, response: AxiosResponse, context: MiddlewareContext) => any;
+}
+
+export function bodyTransformMiddleware(transforms: BodyTransformOptions): Middleware {
+  return async (context, next) => {
+    if (transforms.request && context.options.data !== undefined) {
+      context.options.data = await transforms.request(context.options.data, context);
+    }
+    const response = await next();
+    if (transforms.response) {
+      response.data = await transforms.response(response.data, response, context);
+    }
+    return response;
+  };
+}
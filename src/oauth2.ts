@@ -0,0 +1,224 @@
+import axios, { AxiosInstance } from 'axios';
+import { AuthError, createHttpError, normalizeError } from './errors.js';
+
+export type OAuth2GrantType = 'refresh_token' | 'client_credentials' | 'password';
+
+export interface OAuth2Config {
+  tokenUrl: string;
+  grantType?: OAuth2GrantType;
+  clientId?: string;
+  clientSecret?: string;
+  username?: string;
+  password?: string;
+  scope?: string;
+  // 'basic' sends the client credentials in an Authorization header instead of the form body
+  clientAuthentication?: 'body' | 'basic';
+  // Refresh this many ms before the token actually expires
+  expiryMargin?: number;
+  timeout?: number;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  refreshToken?: string;
+  tokenType?: string;
+  scope?: string;
+  expiresAt?: number;
+}
+
+export type TokenProvider = (
+  current: OAuth2Token | null
+) => Promise<OAuth2Token | string> | OAuth2Token | string;
+
+export interface TokenManagerOptions {
+  oauth2?: OAuth2Config;
+  tokenProvider?: TokenProvider;
+  onTokenRefreshed?: (token: OAuth2Token) => void | Promise<void>;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+export class OAuth2TokenManager {
+  private token: OAuth2Token | null;
+  private pendingRefresh: Promise<OAuth2Token> | null = null;
+  private http: AxiosInstance;
+
+  constructor(private options: TokenManagerOptions) {
+    this.token =
+      options.accessToken || options.refreshToken
+        ? { accessToken: options.accessToken || '', refreshToken: options.refreshToken }
+        : null;
+    this.http = axios.create({ timeout: options.oauth2?.timeout || 30000 });
+  }
+
+  public getToken(): OAuth2Token | null {
+    return this.token;
+  }
+
+  public isExpired(now: number = Date.now()): boolean {
+    if (!this.token || !this.token.accessToken) return true;
+    if (!this.token.expiresAt) return false;
+    const margin = this.options.oauth2?.expiryMargin ?? 30000;
+    return this.token.expiresAt - margin <= now;
+  }
+
+  /**
+   * Returns a usable access token, refreshing first if it is missing or about to expire.
+   */
+  public async getAccessToken(): Promise<string> {
+    if (this.isExpired()) {
+      await this.refresh();
+    }
+    return this.token?.accessToken || '';
+  }
+
+  /**
+   * Refreshes the token after the server rejected `failedToken`. If another caller has
+   * already replaced that token, the newer one is reused instead of refreshing again.
+   */
+  public async handleUnauthorized(failedToken?: string): Promise<string> {
+    if (this.pendingRefresh) {
+      return (await this.pendingRefresh).accessToken;
+    }
+    if (failedToken !== undefined && this.token && this.token.accessToken !== failedToken) {
+      return this.token.accessToken;
+    }
+    return (await this.refresh()).accessToken;
+  }
+
+  /**
+   * Fetches a new token. Concurrent callers share a single in-flight refresh.
+   */
+  public refresh(): Promise<OAuth2Token> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchToken()
+        .then(async (token) => {
+          this.token = token;
+          await this.options.onTokenRefreshed?.(token);
+          return token;
+        })
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async fetchToken(): Promise<OAuth2Token> {
+    if (this.options.tokenProvider) {
+      const result = await this.options.tokenProvider(this.token);
+      const token = typeof result === 'string' ? { accessToken: result } : result;
+      // Providers that only hand back an access token keep the refresh token we already have
+      return { refreshToken: this.token?.refreshToken, ...token };
+    }
+    if (!this.options.oauth2) {
+      throw new Error('No OAuth2 configuration or tokenProvider available to refresh the token');
+    }
+    return this.requestToken(this.options.oauth2);
+  }
+
+  private async requestToken(config: OAuth2Config): Promise<OAuth2Token> {
+    const grantType = this.resolveGrantType(config);
+    try {
+      return await this.sendGrant(config, grantType);
+    } catch (error) {
+      // A rejected refresh token is dropped and the configured grant used instead
+      const fallback = this.fallbackGrantType(config);
+      if (grantType !== 'refresh_token' || !(error instanceof AuthError) || !fallback) throw error;
+      this.token = this.token && { ...this.token, refreshToken: undefined };
+      return this.sendGrant(config, fallback);
+    }
+  }
+
+  private async sendGrant(config: OAuth2Config, grantType: OAuth2GrantType): Promise<OAuth2Token> {
+    const body = new URLSearchParams({ grant_type: grantType });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (grantType === 'refresh_token') {
+      if (!this.token?.refreshToken) {
+        throw new Error('OAuth2 refresh_token grant requires a refresh token');
+      }
+      body.set('refresh_token', this.token.refreshToken);
+    } else if (grantType === 'password') {
+      if (!config.username || !config.password) {
+        throw new Error('OAuth2 password grant requires a username and password');
+      }
+      body.set('username', config.username);
+      body.set('password', config.password);
+    }
+    if (config.scope) {
+      body.set('scope', config.scope);
+    }
+
+    if (config.clientId) {
+      if (config.clientAuthentication === 'basic') {
+        const credentials = Buffer.from(
+          `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret || '')}`
+        ).toString('base64');
+        headers['Authorization'] = `Basic ${credentials}`;
+      } else {
+        body.set('client_id', config.clientId);
+        if (config.clientSecret) {
+          body.set('client_secret', config.clientSecret);
+        }
+      }
+    }
+
+    try {
+      const response = await this.http.post(config.tokenUrl, body.toString(), { headers });
+      return this.parseTokenResponse(response.data);
+    } catch (error: any) {
+      if (!error?.response) throw normalizeError(error);
+      const details = {
+        status: error.response.status,
+        statusText: error.response.statusText,
+        headers: error.response.headers,
+        body: error.response.data,
+        method: 'POST',
+        url: config.tokenUrl,
+        cause: error,
+      };
+      // A rejected grant (400, 401 or 403) means the credentials are wrong; other statuses, such
+      // as a 503 or 429, are the token endpoint's own trouble and may pass
+      if ([400, 401, 403].includes(details.status)) throw new AuthError(details);
+      throw createHttpError(details);
+    }
+  }
+
+  private resolveGrantType(config: OAuth2Config): OAuth2GrantType {
+    if (config.grantType) {
+      // Once a password grant has produced a refresh token, use it
+      if (config.grantType !== 'client_credentials' && this.token?.refreshToken) {
+        return 'refresh_token';
+      }
+      return config.grantType;
+    }
+    if (this.token?.refreshToken) return 'refresh_token';
+    if (config.username) return 'password';
+    return 'client_credentials';
+  }
+
+  // The grant to fall back on when the stored refresh token is rejected
+  private fallbackGrantType(config: OAuth2Config): OAuth2GrantType | undefined {
+    if (config.grantType && config.grantType !== 'refresh_token') return config.grantType;
+    return config.username ? 'password' : undefined;
+  }
+
+  private parseTokenResponse(data: any): OAuth2Token {
+    const payload = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!payload || typeof payload.access_token !== 'string') {
+      throw new Error('OAuth2 token response did not contain an access_token');
+    }
+    const expiresIn = Number(payload.expires_in);
+    return {
+      accessToken: payload.access_token,
+      refreshToken: payload.refresh_token || this.token?.refreshToken,
+      tokenType: payload.token_type,
+      scope: payload.scope,
+      expiresAt: Number.isFinite(expiresIn) ? Date.now() + expiresIn * 1000 : undefined,
+    };
+  }
+}
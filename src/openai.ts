@@ -1,5 +1,28 @@
 import OpenAI from 'openai';
-import UniversalAPIWrapper from './app';
+import UniversalAPIWrapper from './app.js';
+import { Cassette, CassetteConfig } from './cassette.js';
+import { ChatStream, ChatStreamOptions } from './chat-stream.js';
+import {
+  ChunkProgress,
+  TokenCounter,
+  chunkText,
+  estimateTokens,
+  mapWithConcurrency,
+} from './chunking.js';
+import { JSONSchema, validateSchema } from './json-schema.js';
+import { PriceTable, UsageConfig, UsageSummary, UsageTotals, UsageTracker } from './usage.js';
+import {
+  RunWithToolsOptions,
+  RunWithToolsResult,
+  ToolCallRecord,
+  ToolDefinition,
+  addUsage,
+  defineTool,
+  runToolCall,
+  toOpenAITool,
+  toToolMessage,
+} from './tools.js';
+import { NetworkError, StructuredOutputError, TimeoutError, createHttpError } from './errors.js';
 
 interface OpenAIConfig {
   apiKey: string;
@@ -11,13 +34,129 @@ interface OpenAIConfig {
   cacheDuration?: number;
   // Add client for testing
   client?: any;
+  // Models used when a call does not name one
+  models?: ModelDefaults;
+  // Short names such as `fast` or `smart` that can be used wherever a model name is accepted
+  modelAliases?: Record<string, string>;
+  // Price table, budget and time window for usage accounting
+  usage?: UsageConfig;
+  // Record or replay both REST and SDK calls; has no effect on an injected `client`
+  cassette?: CassetteConfig | Cassette;
+}
+
+type ModelCapability = 'chat' | 'image' | 'speech' | 'transcription';
+
+type ModelDefaults = Partial<Record<ModelCapability, string>>;
+
+// Makes `model` optional so the configured default can fill it in
+type WithOptionalModel<T> = T extends unknown ? Omit<T, 'model'> & { model?: string } : never;
+
+interface CallOptions {
+  // Groups the call's token usage under this name in getUsage().byTag
+  tag?: string;
+}
+
+interface CompletionOptions extends CallOptions {
+  // Model name or alias; defaults to `models.chat`
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Sent as a system message ahead of the helper's own instructions
+  systemPrompt?: string;
+}
+
+// No image default: without one the API picks its own
+const defaultModels: ModelDefaults = {
+  chat: 'gpt-3.5-turbo',
+  speech: 'tts-1',
+  transcription: 'whisper-1',
+};
+
+interface ExtractOptions extends CompletionOptions {
+  // Name the schema is given in `response_format`
+  name?: string;
+  instructions?: string;
+  // How many times to re-ask the model after an invalid reply; defaults to 2
+  maxRetries?: number;
+  // Use OpenAI's strict schema mode, which needs every property required and no extras
+  strict?: boolean;
+}
+
+interface ChunkingOptions {
+  // Texts longer than this many tokens are split into chunks; defaults to 3000
+  chunkSize?: number;
+  countTokens?: TokenCounter;
+  // Chunks processed at once; defaults to 4
+  concurrency?: number;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+interface SummarizeOptions extends ChunkingOptions, CompletionOptions {
+  maxLength?: number;
+  // Return `{ summary, keyPoints }` instead of plain text
+  structured?: boolean;
+  // How long texts are summarized: each chunk separately and then combined ('map-reduce',
+  // the default), or one running summary refined chunk by chunk ('refine')
+  strategy?: 'map-reduce' | 'refine';
+  // Tokens repeated between neighbouring chunks; defaults to 200
+  chunkOverlap?: number;
+}
+
+interface StructuredSummary {
+  summary: string;
+  keyPoints: string[];
+}
+
+interface TranslateOptions extends ChunkingOptions, CompletionOptions {
+  // Return `{ translation, sourceLanguage, targetLanguage }` instead of plain text
+  structured?: boolean;
+}
+
+interface StructuredTranslation {
+  translation: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+const summarySchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'keyPoints'],
+  additionalProperties: false,
+};
+
+const translationSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    translation: { type: 'string' },
+    sourceLanguage: { type: 'string', description: 'Detected language of the original text' },
+    targetLanguage: { type: 'string' },
+  },
+  required: ['translation', 'sourceLanguage', 'targetLanguage'],
+  additionalProperties: false,
+};
+
+function completionOptions(options: CompletionOptions): CompletionOptions {
+  const { model, temperature, maxTokens, systemPrompt, tag } = options;
+  return { model, temperature, maxTokens, systemPrompt, tag };
 }
 
 class OpenAIWrapper extends UniversalAPIWrapper {
   [x: string]: any;
   private openai: OpenAI;
+  private models: ModelDefaults;
+  private modelAliases: Record<string, string>;
+  private usageTracker: UsageTracker;
 
   constructor(config: OpenAIConfig) {
+    // One cassette for the REST client and the SDK, so both share the fixture file
+    const cassette =
+      config.cassette instanceof Cassette || !config.cassette
+        ? config.cassette
+        : new Cassette(config.cassette);
     super({
       baseURL: config.baseURL || 'https://api.openai.com/v1',
       timeout: config.timeout,
@@ -27,6 +166,7 @@ class OpenAIWrapper extends UniversalAPIWrapper {
       auth: {
         apiKey: config.apiKey,
       },
+      cassette,
     });
 
     // Use provided client for testing or create real client
@@ -38,20 +178,48 @@ class OpenAIWrapper extends UniversalAPIWrapper {
         baseURL: config.baseURL,
         timeout: config.timeout,
         maxRetries: config.maxRetries,
+        fetch: cassette ? (cassette.fetch() as any) : undefined,
       });
+    this.models = { ...defaultModels, ...config.models };
+    this.modelAliases = config.modelAliases || {};
+    this.usageTracker = new UsageTracker(config.usage);
+  }
+
+  /**
+   * نام یا نام مستعار مدل را به نام واقعی تبدیل می‌کند
+   */
+  resolveModel(model: string | undefined, capability: ModelCapability = 'chat'): string {
+    const name = model || this.models[capability] || '';
+    return this.modelAliases[name] ?? name;
   }
 
   /**
    * چت با مدل‌های OpenAI
    */
-  async chat(params: OpenAI.Chat.ChatCompletionCreateParams) {
+  async chat(
+    input: WithOptionalModel<OpenAI.Chat.ChatCompletionCreateParams>,
+    options: CallOptions = {}
+  ) {
+    if (input.stream) {
+      throw new Error('Use chatStream() for streaming chat completions');
+    }
+    const params = {
+      ...input,
+      model: this.resolveModel(input.model),
+    } as OpenAI.Chat.ChatCompletionCreateParams;
+
     if (this.cacheEnabled) {
       const cacheKey = `chat-${JSON.stringify(params)}`;
       const cachedResponse = await this.getCachedResponse(cacheKey);
-      if (cachedResponse) return cachedResponse;
+      if (cachedResponse) {
+        this.recordUsage(params.model, cachedResponse, options.tag, true);
+        return cachedResponse;
+      }
     }
 
-    const response = await this.openai.chat.completions.create(params);
+    this.usageTracker.assertWithinBudget();
+    const response = await this.callOpenAI(() => this.openai.chat.completions.create(params));
+    this.recordUsage(params.model, response, options.tag);
 
     if (this.cacheEnabled) {
       const cacheKey = `chat-${JSON.stringify(params)}`;
@@ -65,17 +233,108 @@ class OpenAIWrapper extends UniversalAPIWrapper {
     throw new Error('Invalid response format from OpenAI chat completion');
   }
 
+  /**
+   * چت استریمی؛ متن را تکه‌تکه برمی‌گرداند و در پایان پاسخ کامل را می‌سازد
+   */
+  chatStream(
+    params: WithOptionalModel<OpenAI.Chat.ChatCompletionCreateParams>,
+    options: ChatStreamOptions & CallOptions = {}
+  ): ChatStream {
+    const body: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      ...params,
+      model: this.resolveModel(params.model),
+      stream: true,
+      stream_options: params.stream_options ?? { include_usage: true },
+    };
+    return new ChatStream(
+      (signal) => {
+        this.usageTracker.assertWithinBudget();
+        return this.callOpenAI(() => this.openai.chat.completions.create(body, { signal }));
+      },
+      (error) => this.normalizeOpenAIError(error),
+      options,
+      (completion) => this.recordUsage(body.model, completion, options.tag)
+    );
+  }
+
+  /**
+   * اجرای حلقه‌ی فراخوانی ابزار تا پایان پاسخ مدل یا رسیدن به سقف مراحل
+   */
+  async runWithTools(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    tools: ToolDefinition[],
+    options: RunWithToolsOptions = {}
+  ): Promise<RunWithToolsResult> {
+    const { maxSteps = 10, onToolCall, tag, ...params } = options;
+    const model = this.resolveModel(options.model);
+    const registry = new Map(tools.map((tool) => [tool.name, tool]));
+    const transcript = [...messages];
+    const toolCalls: ToolCallRecord[] = [];
+    let usage: OpenAI.CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for (let step = 1; step <= maxSteps; step++) {
+      this.usageTracker.assertWithinBudget();
+      const response = await this.callOpenAI(() =>
+        this.openai.chat.completions.create({
+          ...params,
+          model,
+          messages: transcript,
+          tools: tools.map(toOpenAITool),
+        })
+      );
+      this.recordUsage(model, response, tag);
+      usage = addUsage(usage, response.usage);
+      const message: OpenAI.Chat.ChatCompletionMessage = response.choices[0]?.message;
+      if (!message) throw new Error('Invalid response format from OpenAI chat completion');
+      transcript.push(message);
+
+      if (!message.tool_calls?.length) {
+        return {
+          content: message.content,
+          messages: transcript,
+          toolCalls,
+          steps: step,
+          stopReason: 'completed',
+          usage,
+        };
+      }
+
+      const context = { messages: transcript, step };
+      const records = await Promise.all(
+        message.tool_calls.map((call) =>
+          runToolCall(call, registry, { ...context, callId: call.id })
+        )
+      );
+      for (const record of records) {
+        toolCalls.push(record);
+        onToolCall?.(record);
+        transcript.push(toToolMessage(record));
+      }
+    }
+
+    return {
+      content: null,
+      messages: transcript,
+      toolCalls,
+      steps: maxSteps,
+      stopReason: 'max_steps',
+      usage,
+    };
+  }
+
   /**
    * ایجاد تصویر با DALL-E
    */
-  async createImage(params: OpenAI.Images.ImageGenerateParams) {
+  async createImage(input: WithOptionalModel<OpenAI.Images.ImageGenerateParams>) {
+    const model = this.resolveModel(input.model, 'image');
+    const params: OpenAI.Images.ImageGenerateParams = model ? { ...input, model } : input;
     if (this.cacheEnabled) {
       const cacheKey = `image-${JSON.stringify(params)}`;
       const cachedResponse = await this.getCachedResponse(cacheKey);
       if (cachedResponse) return cachedResponse;
     }
 
-    const response = await this.openai.images.generate(params);
+    const response = await this.callOpenAI(() => this.openai.images.generate(params));
 
     if (this.cacheEnabled) {
       const cacheKey = `image-${JSON.stringify(params)}`;
@@ -89,77 +348,374 @@ class OpenAIWrapper extends UniversalAPIWrapper {
    * تبدیل صوت به متن
    */
   async transcribe(
-    params: OpenAI.Audio.TranscriptionCreateParams
+    params: WithOptionalModel<OpenAI.Audio.TranscriptionCreateParams>
   ): Promise<OpenAI.Audio.Transcription> {
-    const response = await this.openai.audio.transcriptions.create(params);
-    return response;
+    const model = this.resolveModel(params.model, 'transcription');
+    return this.callOpenAI(() =>
+      this.openai.audio.transcriptions.create({
+        ...params,
+        model,
+      } as OpenAI.Audio.TranscriptionCreateParams)
+    );
   }
 
   /**
    * تبدیل متن به صوت
    */
-  async createSpeech(params: OpenAI.Audio.SpeechCreateParams): Promise<ArrayBuffer> {
-    const response = await this.openai.audio.speech.create(params);
+  async createSpeech(
+    params: WithOptionalModel<OpenAI.Audio.SpeechCreateParams>
+  ): Promise<ArrayBuffer> {
+    const model = this.resolveModel(params.model, 'speech');
+    const response = await this.callOpenAI(() =>
+      this.openai.audio.speech.create({ ...params, model })
+    );
     return response.arrayBuffer();
   }
 
   /**
    * تحلیل و استخراج اطلاعات از متن
    */
-  async analyze(text: string, instructions: string): Promise<string> {
-    const response = await this.chat({
-      messages: [
-        { role: 'system', content: instructions },
-        { role: 'user', content: text },
-      ],
-      model: 'gpt-3.5-turbo',
-    });
+  async analyze(
+    text: string,
+    instructions: string,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    const response = await this.chat(
+      {
+        ...this.completionParams(options),
+        messages: this.helperMessages(instructions, text, options),
+      },
+      { tag: options.tag }
+    );
 
     return response.choices[0]?.message?.content || '';
   }
 
+  /**
+   * استخراج داده‌ی ساختاریافته از متن بر اساس JSON Schema
+   */
+  async extract<T = any>(
+    text: string,
+    schema: JSONSchema,
+    options: ExtractOptions = {}
+  ): Promise<T> {
+    const {
+      name = 'extraction',
+      instructions = 'Extract the requested information from the text. Reply with JSON that matches the schema.',
+      maxRetries = 2,
+      strict = false,
+    } = options;
+    const messages = this.helperMessages(instructions, text, options);
+
+    let errors: string[] = [];
+    let output: string | null = null;
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      const response = await this.chat(
+        {
+          ...this.completionParams(options),
+          messages,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name, schema: schema as Record<string, unknown>, strict },
+          },
+        },
+        { tag: options.tag }
+      );
+      const message = response.choices[0]?.message;
+      if (message?.refusal) {
+        throw new StructuredOutputError(
+          `Model refused to answer: ${message.refusal}`,
+          [],
+          message.refusal,
+          attempt
+        );
+      }
+
+      output = message?.content ?? null;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(output ?? '');
+        errors = validateSchema(parsed, schema);
+      } catch {
+        errors = ['$ is not valid JSON'];
+      }
+      if (errors.length === 0) return parsed as T;
+
+      messages.push(
+        { role: 'assistant', content: output ?? '' },
+        {
+          role: 'user',
+          content: `That reply does not match the schema: ${errors.join('; ')}. Reply again with corrected JSON only.`,
+        }
+      );
+    }
+
+    throw new StructuredOutputError(
+      `Model output did not match the schema after ${maxRetries + 1} attempts`,
+      errors,
+      output,
+      maxRetries + 1
+    );
+  }
+
   /**
    * خلاصه‌سازی متن
    */
-  async summarize(text: string, maxLength?: number): Promise<string> {
+  async summarize(text: string, maxLength?: number): Promise<string>;
+  async summarize(
+    text: string,
+    options: SummarizeOptions & { structured: true }
+  ): Promise<StructuredSummary>;
+  async summarize(text: string, options?: SummarizeOptions): Promise<string>;
+  async summarize(
+    text: string,
+    options?: number | SummarizeOptions
+  ): Promise<string | StructuredSummary> {
+    const settings: SummarizeOptions =
+      typeof options === 'number' ? { maxLength: options } : options || {};
+    const { maxLength, chunkSize = 3000, chunkOverlap = 200, countTokens } = settings;
     const instructions = maxLength
       ? `Summarize the following text in no more than ${maxLength} words:`
       : 'Summarize the following text:';
 
-    return this.analyze(text, instructions);
+    const chunks = chunkText(text, { maxTokens: chunkSize, overlap: chunkOverlap, countTokens });
+    if (chunks.length > 1) {
+      const combined =
+        settings.strategy === 'refine'
+          ? await this.refineSummary(chunks, settings)
+          : await this.mapSummaries(chunks, settings);
+      return this.finishSummary(combined, settings, instructions);
+    }
+    return this.finishSummary(text, settings, instructions);
+  }
+
+  // Summarizes each chunk, then keeps summarizing the joined summaries until they fit one chunk
+  private async mapSummaries(chunks: string[], settings: SummarizeOptions): Promise<string> {
+    const { chunkSize = 3000, chunkOverlap = 200, concurrency = 4 } = settings;
+    const countTokens = settings.countTokens || estimateTokens;
+    let stage: ChunkProgress['stage'] = 'map';
+    let tokens = countTokens(chunks.join('\n\n'));
+
+    for (;;) {
+      let completed = 0;
+      const summaries = await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+        const summary = await this.analyze(
+          chunk,
+          'Summarize this section of a longer document, keeping every important detail:',
+          completionOptions(settings)
+        );
+        settings.onProgress?.({ stage, completed: ++completed, total: chunks.length });
+        return summary;
+      });
+
+      const joined = summaries.join('\n\n');
+      const next = chunkText(joined, { maxTokens: chunkSize, overlap: chunkOverlap, countTokens });
+      if (next.length <= 1) return joined;
+      // Another round only helps while the summaries keep getting shorter
+      const joinedTokens = countTokens(joined);
+      if (joinedTokens >= tokens) {
+        throw new Error(
+          `Chunk summaries stopped getting shorter at ${joinedTokens} tokens, which is more than ` +
+            `chunkSize (${chunkSize}); raise chunkSize or use strategy: 'refine'`
+        );
+      }
+      tokens = joinedTokens;
+      chunks = next;
+      stage = 'reduce';
+    }
+  }
+
+  // Builds one summary chunk by chunk, each step refining the previous one
+  private async refineSummary(chunks: string[], settings: SummarizeOptions): Promise<string> {
+    let summary = '';
+    for (const [index, chunk] of chunks.entries()) {
+      summary =
+        index === 0
+          ? await this.analyze(chunk, 'Summarize the following text:', completionOptions(settings))
+          : await this.analyze(
+              `Existing summary:\n${summary}\n\nNew text:\n${chunk}`,
+              'Refine the existing summary so it also covers the new text. Reply with the refined summary only.',
+              completionOptions(settings)
+            );
+      settings.onProgress?.({ stage: 'refine', completed: index + 1, total: chunks.length });
+    }
+    return summary;
+  }
+
+  private async finishSummary(
+    text: string,
+    settings: SummarizeOptions,
+    instructions: string
+  ): Promise<string | StructuredSummary> {
+    if (settings.structured) {
+      return this.extract<StructuredSummary>(text, summarySchema, {
+        ...completionOptions(settings),
+        name: 'summary',
+        instructions: `${instructions} List the key points separately.`,
+      });
+    }
+    return this.analyze(text, instructions, completionOptions(settings));
   }
 
   /**
    * ترجمه متن
    */
-  async translate(text: string, targetLanguage: string): Promise<string> {
+  async translate(text: string, targetLanguage: string): Promise<string>;
+  async translate(
+    text: string,
+    targetLanguage: string,
+    options: TranslateOptions & { structured: true }
+  ): Promise<StructuredTranslation>;
+  async translate(
+    text: string,
+    targetLanguage: string,
+    options?: TranslateOptions
+  ): Promise<string | StructuredTranslation>;
+  async translate(
+    text: string,
+    targetLanguage: string,
+    options: TranslateOptions = {}
+  ): Promise<string | StructuredTranslation> {
+    const { chunkSize = 3000, countTokens, concurrency = 4, onProgress } = options;
     const instructions = `Translate the following text to ${targetLanguage}:`;
-    return this.analyze(text, instructions);
-  }
+    const translateChunk = (chunk: string) =>
+      options.structured
+        ? this.extract<StructuredTranslation>(chunk, translationSchema, {
+            ...completionOptions(options),
+            name: 'translation',
+            instructions: `${instructions} Also report the language the text was written in.`,
+          })
+        : this.analyze(chunk, instructions, completionOptions(options));
 
-  private async getCachedResponse(key: string): Promise<any> {
-    return new Promise((resolve) => {
-      const cached = this.getFromCache(key);
-      resolve(cached);
+    // No overlap, so nothing is translated twice; chunks break between paragraphs
+    const chunks = chunkText(text, { maxTokens: chunkSize, countTokens });
+    if (chunks.length <= 1) return translateChunk(text);
+
+    let completed = 0;
+    const parts = await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+      const part = await translateChunk(chunk);
+      onProgress?.({ stage: 'translate', completed: ++completed, total: chunks.length });
+      return part;
     });
+
+    if (!options.structured) return (parts as string[]).join('\n\n');
+    const structured = parts as StructuredTranslation[];
+    return {
+      translation: structured.map((part) => part.translation).join('\n\n'),
+      sourceLanguage: structured[0].sourceLanguage,
+      targetLanguage: structured[0].targetLanguage,
+    };
   }
 
-  private async cacheResponse(key: string, response: any): Promise<void> {
-    return new Promise((resolve) => {
-      this.saveToCache(key, response);
-      resolve();
+  /**
+   * مصرف توکن و هزینه‌ی تخمینی به تفکیک مدل، برچسب و بازه‌ی زمانی
+   */
+  getUsage(): UsageSummary {
+    return this.usageTracker.summary();
+  }
+
+  /**
+   * خروجی JSON از آمار مصرف
+   */
+  exportUsage(): string {
+    return JSON.stringify(this.usageTracker, null, 2);
+  }
+
+  resetUsage(): void {
+    this.usageTracker.reset();
+  }
+
+  private recordUsage(model: string, response: any, tag?: string, cached = false): void {
+    this.usageTracker.record({
+      model: response?.model || model,
+      usage: response?.usage,
+      tag,
+      cached,
     });
   }
 
-  private getFromCache(key: string): any {
-    return this.cacheEnabled ? this.get(key) : null;
+  private completionParams(options: CompletionOptions) {
+    return {
+      model: this.resolveModel(options.model),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.maxTokens !== undefined ? { max_tokens: options.maxTokens } : {}),
+    };
   }
 
-  private saveToCache(key: string, value: any): void {
-    if (this.cacheEnabled) {
-      this.put(key, value, this.cacheDuration);
+  private helperMessages(
+    instructions: string,
+    text: string,
+    options: CompletionOptions
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      ...(options.systemPrompt ? [{ role: 'system' as const, content: options.systemPrompt }] : []),
+      { role: 'system', content: instructions },
+      { role: 'user', content: text },
+    ];
+  }
+
+  /**
+   * خطاهای SDK را به کلاس‌های خطای wrapper تبدیل می‌کند
+   */
+  private async callOpenAI<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      throw this.normalizeOpenAIError(error);
+    }
+  }
+
+  private normalizeOpenAIError(error: any): any {
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new TimeoutError(error.message, error);
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new NetworkError(error.message, (error as any).cause?.code, error);
+    }
+    if (error instanceof OpenAI.APIError && typeof error.status === 'number') {
+      return createHttpError({
+        status: error.status,
+        headers: error.headers,
+        body: error.error,
+        cause: error,
+      });
     }
+    return error;
+  }
+
+  private async getCachedResponse(key: string): Promise<any> {
+    return this.getCached(key);
+  }
+
+  private async cacheResponse(key: string, response: any): Promise<void> {
+    await this.setCached(key, response);
   }
 }
 
 export default OpenAIWrapper;
+export { ChatStream, defineTool };
+export type {
+  OpenAIConfig,
+  CallOptions,
+  UsageConfig,
+  UsageSummary,
+  UsageTotals,
+  PriceTable,
+  ModelCapability,
+  ModelDefaults,
+  CompletionOptions,
+  ChatStreamOptions,
+  ChunkingOptions,
+  ChunkProgress,
+  TokenCounter,
+  ExtractOptions,
+  SummarizeOptions,
+  StructuredSummary,
+  TranslateOptions,
+  StructuredTranslation,
+  JSONSchema,
+  ToolDefinition,
+  ToolCallRecord,
+  RunWithToolsOptions,
+  RunWithToolsResult,
+};
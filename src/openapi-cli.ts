@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+import { promises as fs, realpathSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { generateTypes } from './openapi-types.js';
+
+const USAGE = `Usage: nexus-openapi-types <document.json> [options]
+
+Writes TypeScript declarations for the operations in an OpenAPI 3.x document.
+
+Options:
+  -o, --out <file>      Output file (default: standard output)
+  --import <module>     Module to import the wrapper's types from (default: nexus-api-wrapper)
+  --name <interface>    Name of the operations interface (default: Operations)
+  -h, --help            Show this help`;
+
+export async function main(args: string[]): Promise<number> {
+  let input: string | undefined;
+  let out: string | undefined;
+  let importFrom: string | undefined;
+  let interfaceName: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      return 0;
+    } else if (arg === '-o' || arg === '--out') {
+      out = args[++i];
+    } else if (arg === '--import') {
+      importFrom = args[++i];
+    } else if (arg === '--name') {
+      interfaceName = args[++i];
+    } else if (!arg.startsWith('-') && !input) {
+      input = arg;
+    } else {
+      console.error(`Unknown argument "${arg}"\n\n${USAGE}`);
+      return 1;
+    }
+  }
+  if (!input) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  let document: any;
+  try {
+    document = JSON.parse(await fs.readFile(input, 'utf8'));
+  } catch (error: any) {
+    console.error(`Could not read ${input}: ${error.message}`);
+    return 1;
+  }
+  if (typeof document?.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    console.error(`${input} is not an OpenAPI 3.x document`);
+    return 1;
+  }
+
+  const types = generateTypes(document, { importFrom, interfaceName });
+  if (!out) {
+    process.stdout.write(types);
+    return 0;
+  }
+  await fs.mkdir(path.dirname(out), { recursive: true });
+  await fs.writeFile(out, types);
+  console.error(`Wrote ${out}`);
+  return 0;
+}
+
+// Only run when executed directly (also through the npm bin symlink), not when imported
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  );
+}
@@ -0,0 +1,240 @@
+import { JSONSchema } from './json-schema.js';
+import {
+  OpenAPIDocument,
+  OpenAPIParameter,
+  ParameterLocation,
+  ResolvedOperation,
+  getCredentialFields,
+  listOperations,
+} from './openapi.js';
+
+export interface GenerateTypesOptions {
+  // Module the wrapper's types are imported from; defaults to 'nexus-api-wrapper'
+  importFrom?: string;
+  // Name of the interface describing `api.ops`; defaults to 'Operations'
+  interfaceName?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// 'user-profile' -> 'UserProfile'
+export function toTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal || '_';
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function comment(text: string | undefined, indent: string): string {
+  if (!text) return '';
+  const lines = text.trim().replace(/\*\//g, '*\\/').split('\n');
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function withNull(type: string, schema: JSONSchema): string {
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function join(types: string[], separator: ' | ' | ' & '): string {
+  const unique = [...new Set(types)];
+  if (unique.length === 1) return unique[0];
+  return unique
+    .map((type) => (/[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type))
+    .join(separator);
+}
+
+/**
+ * Converts a JSON schema into a TypeScript type expression. `$ref`s to component schemas become
+ * references to the generated type of that name.
+ */
+export function schemaToType(schema: JSONSchema | undefined, indent = ''): string {
+  if (!schema) return 'unknown';
+  if (typeof schema.$ref === 'string') {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref);
+    return match ? toTypeName(match[1]) : 'unknown';
+  }
+  if (schema.const !== undefined) return withNull(JSON.stringify(schema.const), schema);
+  if (schema.enum) {
+    return withNull(
+      join(
+        schema.enum.map((value) => JSON.stringify(value)),
+        ' | '
+      ),
+      schema
+    );
+  }
+  if (schema.allOf) {
+    return withNull(
+      join(
+        schema.allOf.map((part) => schemaToType(part, indent)),
+        ' & '
+      ),
+      schema
+    );
+  }
+  const union = schema.oneOf || schema.anyOf;
+  if (union) {
+    return withNull(
+      join(
+        union.map((part) => schemaToType(part, indent)),
+        ' | '
+      ),
+      schema
+    );
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    return schema.properties ? withNull(objectType(schema, indent), schema) : 'unknown';
+  }
+  const parts = types.map((type) => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `Array<${schemaToType(schema.items, indent)}>`;
+      default:
+        return objectType(schema, indent);
+    }
+  });
+  return withNull(join(parts, ' | '), schema);
+}
+
+function objectType(schema: JSONSchema, indent: string): string {
+  const properties = Object.entries(schema.properties || {});
+  const extra = schema.additionalProperties;
+  if (properties.length === 0) {
+    if (extra === false) return 'Record<string, never>';
+    return `Record<string, ${typeof extra === 'object' ? schemaToType(extra, indent) : 'unknown'}>`;
+  }
+
+  const inner = `${indent}  `;
+  const required = new Set(schema.required || []);
+  const lines = properties.map(
+    ([name, child]) =>
+      `${comment(child.description, inner)}${inner}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${schemaToType(child, inner)};`
+  );
+  if (extra === true || typeof extra === 'object') {
+    // Has to cover the named properties' types too
+    lines.push(`${inner}[key: string]: unknown;`);
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function parameterGroup(parameters: OpenAPIParameter[], indent: string): string {
+  const lines = parameters.map(
+    (parameter) =>
+      `${comment(parameter.description, `${indent}  `)}${indent}  ${propertyKey(parameter.name)}${
+        parameter.required || parameter.in === 'path' ? '' : '?'
+      }: ${schemaToType(parameter.schema, `${indent}  `)};`
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function paramsType(
+  operation: ResolvedOperation,
+  indent: string
+): { type: string; required: boolean } {
+  const inner = `${indent}  `;
+  const members: string[] = [];
+  let required = false;
+  for (const location of ['path', 'query', 'header', 'cookie'] as ParameterLocation[]) {
+    const parameters = operation.parameters.filter((parameter) => parameter.in === location);
+    if (parameters.length === 0) continue;
+    const groupRequired = parameters.some((p) => p.required || location === 'path');
+    required ||= groupRequired;
+    members.push(
+      `${inner}${location}${groupRequired ? '' : '?'}: ${parameterGroup(parameters, inner)};`
+    );
+  }
+  const body = operation.requestBody;
+  if (body) {
+    required ||= body.required;
+    const type = /json/i.test(body.contentType) ? schemaToType(body.schema, inner) : 'any';
+    members.push(`${inner}body${body.required ? '' : '?'}: ${type};`);
+  }
+  return { type: members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}', required };
+}
+
+// Which wrapper settings the call needs, e.g. 'Auth: bearerToken or apiKey + basicAuth'
+function authNote(document: OpenAPIDocument, operation: ResolvedOperation): string {
+  const requirements = operation.security ?? document.security;
+  if (!requirements) return '';
+  if (requirements.length === 0) return 'Auth: none';
+  const alternatives = getCredentialFields(document, operation)!.map(
+    (fields) => fields.join(' + ') || 'none'
+  );
+  return alternatives.length > 0 ? `Auth: ${alternatives.join(' or ')}` : '';
+}
+
+// The first 2xx response, or `default`, as the type of `response.data`
+function responseType(operation: ResolvedOperation, indent: string): string {
+  const statuses = Object.keys(operation.responses).sort();
+  const status =
+    statuses.find((code) => /^2/.test(code)) ?? statuses.find((code) => code === 'default');
+  if (!status) return 'unknown';
+  const content = operation.responses[status].content;
+  if (!content) return 'void';
+  const json = Object.keys(content).find((type) => /json/i.test(type));
+  if (!json)
+    return Object.keys(content).some((type) => /^text\//.test(type)) ? 'string' : 'unknown';
+  return schemaToType(content[json].schema, indent);
+}
+
+/**
+ * Generates a declaration file with a type for every component schema and an interface
+ * describing `api.ops`, to be passed to the wrapper as `new UniversalAPIWrapper<Operations>()`.
+ */
+export function generateTypes(
+  document: OpenAPIDocument,
+  options: GenerateTypesOptions = {}
+): string {
+  const importFrom = options.importFrom || 'nexus-api-wrapper';
+  const interfaceName = options.interfaceName || 'Operations';
+  const title = [document.info?.title, document.info?.version].filter(Boolean).join(' ');
+
+  const output: string[] = [
+    `// Generated from ${title ? `the ${title} OpenAPI document` : 'an OpenAPI document'}. Do not edit.`,
+    `import type { RequestOptions, WrapperResponse } from '${importFrom}';`,
+    '',
+  ];
+
+  for (const [name, schema] of Object.entries(document.components?.schemas || {})) {
+    output.push(
+      `${comment(schema.description, '')}export type ${toTypeName(name)} = ${schemaToType(schema)};`,
+      ''
+    );
+  }
+
+  output.push(`export interface ${interfaceName} {`);
+  for (const operation of listOperations(document)) {
+    const params = paramsType(operation, '  ');
+    const description = [
+      operation.summary || operation.description,
+      `${operation.method} ${operation.path}`,
+      authNote(document, operation),
+      operation.deprecated ? '@deprecated' : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    output.push(
+      `${comment(description, '  ')}  ${propertyKey(operation.operationId)}(params${params.required ? '' : '?'}: ${params.type}, options?: RequestOptions): Promise<WrapperResponse<${responseType(operation, '  ')}>>;`
+    );
+  }
+  output.push('}', '');
+  return output.join('\n');
+}
@@ -0,0 +1,476 @@
+import type { RequestOptions } from './app.js';
+import type { Credentials } from './auth.js';
+import { OpenAPIValidationError } from './errors.js';
+import type { WrapperResponse } from './http-cache.js';
+import { JSONSchema, validateSchema } from './json-schema.js';
+
+/**
+ * The parts of an OpenAPI 3.x document the wrapper reads. Anything else in the document is
+ * ignored.
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: OpenAPIServer[];
+  paths?: Record<string, OpenAPIPathItem>;
+  components?: {
+    schemas?: Record<string, JSONSchema>;
+    parameters?: Record<string, OpenAPIParameter>;
+    requestBodies?: Record<string, OpenAPIRequestBody>;
+    responses?: Record<string, OpenAPIResponse>;
+    securitySchemes?: Record<string, OpenAPISecurityScheme>;
+  };
+  security?: OpenAPISecurityRequirement[];
+}
+
+export interface OpenAPIServer {
+  url: string;
+  variables?: Record<string, { default: string; enum?: string[] }>;
+}
+
+export type OpenAPIPathItem = {
+  parameters?: Array<OpenAPIParameter | OpenAPIRef>;
+} & { [method in HttpMethod]?: OpenAPIOperation };
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: Array<OpenAPIParameter | OpenAPIRef>;
+  requestBody?: OpenAPIRequestBody | OpenAPIRef;
+  responses?: Record<string, OpenAPIResponse | OpenAPIRef>;
+  security?: OpenAPISecurityRequirement[];
+  deprecated?: boolean;
+}
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface OpenAPIParameter {
+  name: string;
+  in: ParameterLocation;
+  description?: string;
+  required?: boolean;
+  style?:
+    | 'simple'
+    | 'label'
+    | 'matrix'
+    | 'form'
+    | 'spaceDelimited'
+    | 'pipeDelimited'
+    | 'deepObject';
+  explode?: boolean;
+  schema?: JSONSchema;
+}
+
+export interface OpenAPIMediaType {
+  schema?: JSONSchema;
+}
+
+export interface OpenAPIRequestBody {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIResponse {
+  description?: string;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPISecurityScheme {
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  // apiKey
+  name?: string;
+  in?: 'header' | 'query' | 'cookie';
+  // http
+  scheme?: string;
+}
+
+export type OpenAPISecurityRequirement = Record<string, string[]>;
+
+export interface OpenAPIRef {
+  $ref: string;
+}
+
+type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace';
+
+const HTTP_METHODS: HttpMethod[] = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+// Values for an operation's parameters, grouped by where they go, plus the request body
+export interface OperationParams {
+  path?: Record<string, any>;
+  query?: Record<string, any>;
+  header?: Record<string, any>;
+  cookie?: Record<string, any>;
+  body?: any;
+}
+
+export type OperationCall = (
+  params?: OperationParams,
+  options?: RequestOptions
+) => Promise<WrapperResponse>;
+
+// `api.ops` when no generated types are passed to the wrapper
+export type OpenAPIOperations = Record<string, OperationCall>;
+
+export interface ResolvedOperation {
+  operationId: string;
+  // Upper case
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters: OpenAPIParameter[];
+  requestBody?: {
+    required: boolean;
+    contentType: string;
+    schema?: JSONSchema;
+  };
+  responses: Record<string, OpenAPIResponse>;
+  security?: OpenAPISecurityRequirement[];
+}
+
+/**
+ * Follows a local `$ref` ("#/components/schemas/User"). Other values are returned as they are.
+ */
+export function resolveRef<T>(document: OpenAPIDocument, value: T | OpenAPIRef): T {
+  let current: any = value;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === 'string') {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/')) throw new Error(`Only local $refs are supported, got "${ref}"`);
+    if (seen.has(ref)) throw new Error(`Circular $ref "${ref}"`);
+    seen.add(ref);
+    current = ref
+      .slice(2)
+      .split('/')
+      .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, part) => node?.[part], document);
+    if (current === undefined) throw new Error(`Unresolved $ref "${ref}"`);
+  }
+  return current as T;
+}
+
+/**
+ * Inlines every `$ref` in a schema so it can be validated. A schema that refers back to itself
+ * accepts anything at the point where it recurses.
+ */
+export function inlineSchema(
+  document: OpenAPIDocument,
+  schema: JSONSchema,
+  resolving: Set<string> = new Set()
+): JSONSchema {
+  if (typeof schema.$ref === 'string') {
+    if (resolving.has(schema.$ref)) return {};
+    const inner = new Set(resolving).add(schema.$ref);
+    return inlineSchema(document, resolveRef<JSONSchema>(document, schema), inner);
+  }
+  const result: JSONSchema = { ...schema };
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [
+        key,
+        inlineSchema(document, child, resolving),
+      ])
+    );
+  }
+  if (schema.items) result.items = inlineSchema(document, schema.items, resolving);
+  if (typeof schema.additionalProperties === 'object') {
+    result.additionalProperties = inlineSchema(document, schema.additionalProperties, resolving);
+  }
+  for (const key of ['allOf', 'anyOf', 'oneOf'] as const) {
+    const parts = schema[key];
+    if (parts) result[key] = parts.map((part) => inlineSchema(document, part, resolving));
+  }
+  return result;
+}
+
+// Every operation with an operationId, with path-level parameters merged in and $refs resolved
+export function listOperations(document: OpenAPIDocument): ResolvedOperation[] {
+  const operations: ResolvedOperation[] = [];
+  for (const [path, item] of Object.entries(document.paths || {})) {
+    const shared = (item.parameters || []).map((parameter) => resolveRef(document, parameter));
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation?.operationId) continue;
+
+      // Operation parameters override path-level ones with the same name and location
+      const own = (operation.parameters || []).map((parameter) => resolveRef(document, parameter));
+      const parameters = [
+        ...shared.filter((p) => !own.some((o) => o.name === p.name && o.in === p.in)),
+        ...own,
+      ];
+
+      let requestBody: ResolvedOperation['requestBody'];
+      if (operation.requestBody) {
+        const body = resolveRef(document, operation.requestBody);
+        const types = Object.keys(body.content || {});
+        const contentType = types.find((type) => /json/i.test(type)) || types[0];
+        if (contentType) {
+          requestBody = {
+            required: body.required ?? false,
+            contentType,
+            schema: body.content![contentType].schema,
+          };
+        }
+      }
+
+      operations.push({
+        operationId: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary,
+        description: operation.description,
+        deprecated: operation.deprecated,
+        parameters,
+        requestBody,
+        responses: Object.fromEntries(
+          Object.entries(operation.responses || {}).map(([status, response]) => [
+            status,
+            resolveRef(document, response),
+          ])
+        ),
+        security: operation.security,
+      });
+    }
+  }
+  return operations;
+}
+
+// The first server's URL with its variables set to their defaults
+export function getServerURL(document: OpenAPIDocument): string | undefined {
+  const server = document.servers?.[0];
+  if (!server) return undefined;
+  return server.url.replace(
+    /\{([^}]+)\}/g,
+    (match, name) => server.variables?.[name]?.default ?? match
+  );
+}
+
+/**
+ * Where the document's API key scheme puts the key, taken from the first apiKey scheme the
+ * top-level `security` uses, or else the first one defined. Cookie keys aren't supported. HTTP
+ * bearer and basic schemes always use the `Authorization` header, so they need no placement.
+ */
+export function getApiKeyPlacement(
+  document: OpenAPIDocument
+): Pick<Credentials, 'apiKeyName' | 'apiKeyIn'> | undefined {
+  const schemes = document.components?.securitySchemes || {};
+  const required = (document.security || []).flatMap((requirement) => Object.keys(requirement));
+  const names = [...required, ...Object.keys(schemes)];
+  const scheme = names
+    .map((name) => schemes[name])
+    .find(
+      (candidate) => candidate?.type === 'apiKey' && candidate.in !== 'cookie' && candidate.name
+    );
+  return scheme
+    ? { apiKeyName: scheme.name, apiKeyIn: scheme.in as 'header' | 'query' }
+    : undefined;
+}
+
+// The wrapper setting that satisfies a security scheme, if any
+function credentialField(scheme: OpenAPISecurityScheme | undefined): string | undefined {
+  if (scheme?.type === 'apiKey' && scheme.in !== 'cookie') return 'apiKey';
+  if (scheme?.type === 'http' && /^bearer$/i.test(scheme.scheme || '')) return 'bearerToken';
+  if (scheme?.type === 'http' && /^basic$/i.test(scheme.scheme || '')) return 'basicAuth';
+  if (scheme?.type === 'oauth2' || scheme?.type === 'openIdConnect') return 'oauth2';
+  return undefined;
+}
+
+/**
+ * The settings an operation's security asks for, one list per alternative, e.g.
+ * `[['bearerToken'], ['apiKey', 'basicAuth']]`, taken from the operation's `security` or else the
+ * document's. Undefined when neither declares any. Alternatives using a scheme the wrapper can't
+ * send (cookie keys, digest auth) are left out.
+ */
+export function getCredentialFields(
+  document: OpenAPIDocument,
+  operation: ResolvedOperation
+): string[][] | undefined {
+  const requirements = operation.security ?? document.security;
+  if (!requirements) return undefined;
+  const schemes = document.components?.securitySchemes || {};
+  return requirements
+    .map((requirement) => Object.keys(requirement).map((name) => credentialField(schemes[name])))
+    .filter((fields): fields is string[] => fields.every(Boolean));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function definedEntries(value: Record<string, unknown>): Array<[string, unknown]> {
+  return Object.entries(value).filter(([, item]) => item !== undefined);
+}
+
+function encode(value: unknown): string {
+  return encodeURIComponent(String(value));
+}
+
+// The 'simple' style, used by path parameters and headers
+function serializeSimple(value: unknown, explode: boolean, escape: (value: unknown) => string) {
+  if (Array.isArray(value)) return value.map(escape).join(',');
+  if (isObject(value)) {
+    return definedEntries(value)
+      .map(([key, item]) => `${escape(key)}${explode ? '=' : ','}${escape(item)}`)
+      .join(',');
+  }
+  return escape(value);
+}
+
+// Renders one path parameter for its `{name}` placeholder
+export function serializePathParameter(parameter: OpenAPIParameter, value: unknown): string {
+  const { name, style = 'simple', explode = false } = parameter;
+  if (style === 'simple') return serializeSimple(value, explode, encode);
+
+  const items: string[] = Array.isArray(value)
+    ? value.map(encode)
+    : isObject(value)
+      ? definedEntries(value).map(([key, item]) =>
+          explode ? `${encode(key)}=${encode(item)}` : `${encode(key)},${encode(item)}`
+        )
+      : [encode(value)];
+  if (style === 'label') return `.${items.join(explode ? '.' : ',')}`;
+  if (style === 'matrix') {
+    if (!explode) return `;${name}=${items.join(',')}`;
+    // Exploded objects already read key=value; exploded arrays repeat the name
+    return isObject(value)
+      ? items.map((item) => `;${item}`).join('')
+      : items.map((item) => `;${name}=${item}`).join('');
+  }
+  throw new Error(`Unsupported style "${style}" for path parameter "${name}"`);
+}
+
+// Renders one query parameter as `name=value` pairs
+export function serializeQueryParameter(parameter: OpenAPIParameter, value: unknown): string[] {
+  const style = parameter.style || 'form';
+  const explode = parameter.explode ?? style === 'form';
+  const name = encode(parameter.name);
+
+  if (Array.isArray(value)) {
+    if (explode) return value.map((item) => `${name}=${encode(item)}`);
+    const separator = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '%7C' : ',';
+    return [`${name}=${value.map(encode).join(separator)}`];
+  }
+  if (isObject(value)) {
+    const entries = definedEntries(value);
+    if (style === 'deepObject') {
+      return entries.map(([key, item]) => `${name}[${encode(key)}]=${encode(item)}`);
+    }
+    if (explode) return entries.map(([key, item]) => `${encode(key)}=${encode(item)}`);
+    return [`${name}=${entries.map(([key, item]) => `${encode(key)},${encode(item)}`).join(',')}`];
+  }
+  return [`${name}=${encode(value)}`];
+}
+
+/**
+ * Builds the query string for an operation. Values without a matching parameter, such as an API
+ * key added by the wrapper, use the default form style.
+ */
+export function serializeQuery(
+  parameters: OpenAPIParameter[],
+  values: Record<string, any>
+): string {
+  const pairs: string[] = [];
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue;
+    const parameter = parameters.find((p) => p.in === 'query' && p.name === name) || {
+      name,
+      in: 'query',
+    };
+    pairs.push(...serializeQueryParameter(parameter, value));
+  }
+  return pairs.join('&');
+}
+
+/**
+ * Checks a call against the operation and turns it into an endpoint and request options.
+ * Throws OpenAPIValidationError listing every problem found.
+ */
+export function prepareOperation(
+  document: OpenAPIDocument,
+  operation: ResolvedOperation,
+  params: OperationParams = {}
+): { endpoint: string; options: RequestOptions } {
+  const errors: string[] = [];
+  for (const parameter of operation.parameters) {
+    const value = params[parameter.in]?.[parameter.name];
+    const path = `$.${parameter.in}.${parameter.name}`;
+    if (value === undefined) {
+      if (parameter.required || parameter.in === 'path') errors.push(`${path} is required`);
+    } else if (parameter.schema) {
+      errors.push(...validateSchema(value, inlineSchema(document, parameter.schema), path));
+    }
+  }
+  const body = operation.requestBody;
+  if (params.body === undefined) {
+    if (body?.required) errors.push('$.body is required');
+  } else if (!body) {
+    errors.push('$.body is not allowed');
+  } else if (body.schema && /json/i.test(body.contentType)) {
+    errors.push(...validateSchema(params.body, inlineSchema(document, body.schema), '$.body'));
+  }
+  if (errors.length > 0) throw new OpenAPIValidationError(operation.operationId, errors);
+
+  const endpoint = operation.path.replace(/\{([^}]+)\}/g, (_match, name) => {
+    const parameter = operation.parameters.find((p) => p.in === 'path' && p.name === name);
+    return serializePathParameter(parameter || { name, in: 'path' }, params.path?.[name]);
+  });
+
+  const headers: Record<string, string> = {};
+  for (const parameter of operation.parameters.filter((p) => p.in === 'header')) {
+    const value = params.header?.[parameter.name];
+    if (value !== undefined) {
+      headers[parameter.name] = serializeSimple(value, parameter.explode ?? false, String);
+    }
+  }
+  const cookies = operation.parameters
+    .filter((p) => p.in === 'cookie' && params.cookie?.[p.name] !== undefined)
+    .map((p) => `${p.name}=${encode(serializeSimple(params.cookie![p.name], false, String))}`);
+  if (cookies.length > 0) headers['Cookie'] = cookies.join('; ');
+  if (body && params.body !== undefined) headers['Content-Type'] = body.contentType;
+
+  const options: RequestOptions = { headers };
+  if (params.query && Object.keys(params.query).length > 0) {
+    options.params = params.query;
+    options.paramsSerializer = {
+      serialize: (values) => serializeQuery(operation.parameters, values),
+    };
+  }
+  if (params.body !== undefined) options.data = params.body;
+  // `security: []` marks a public operation
+  if (operation.security && operation.security.length === 0) options.auth = false;
+  return { endpoint, options };
+}
+
+/**
+ * Builds `ops`: one function per operationId, each sending its call through `send`.
+ */
+export function createOperations(
+  document: OpenAPIDocument,
+  send: (method: string, endpoint: string, options: RequestOptions) => Promise<WrapperResponse>
+): OpenAPIOperations {
+  const operations: OpenAPIOperations = {};
+  for (const operation of listOperations(document)) {
+    operations[operation.operationId] = async (params, options = {}) => {
+      const prepared = prepareOperation(document, operation, params);
+      return send(operation.method, prepared.endpoint, {
+        ...prepared.options,
+        ...options,
+        headers: { ...prepared.options.headers, ...(options.headers as any) },
+        meta: { ...options.meta, operationId: operation.operationId },
+      });
+    };
+  }
+  return operations;
+}
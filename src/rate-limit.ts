@@ -0,0 +1,207 @@
+import { CanceledError, GenericAbortSignal } from 'axios';
+import { findHeader, getServerDelay } from './retry.js';
+
+export type RateLimitScope =
+  | 'global'
+  | 'host'
+  | 'route'
+  | ((method: string, url: string) => string);
+
+export interface RateLimitConfig {
+  // Token bucket: at most `requests` per `interval` ms
+  requests?: number;
+  interval?: number;
+  maxConcurrent?: number;
+  // How requests are grouped into buckets; defaults to one bucket per host
+  scope?: RateLimitScope;
+  // Follow RateLimit-Remaining / X-RateLimit-Remaining and reset headers from responses
+  adaptive?: boolean;
+}
+
+export interface BucketStats {
+  queued: number;
+  active: number;
+  tokens: number | null;
+  blockedUntil: number | null;
+}
+
+export interface RateLimitStats {
+  queued: number;
+  active: number;
+  buckets: Record<string, BucketStats>;
+}
+
+interface Waiter {
+  priority: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  blockedUntil: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private requests: number;
+  private interval: number;
+  private maxConcurrent: number;
+
+  constructor(private config: RateLimitConfig) {
+    this.requests = config.requests ?? Infinity;
+    this.interval = config.interval ?? 1000;
+    this.maxConcurrent = config.maxConcurrent ?? Infinity;
+  }
+
+  /**
+   * Waits for a slot in the bucket and resolves with a function that must be called once the
+   * request has finished.
+   */
+  acquire(key: string, priority = 0, signal?: GenericAbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+    const bucket = this.getBucket(key);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = bucket.queue.indexOf(waiter);
+        if (index !== -1) {
+          bucket.queue.splice(index, 1);
+          reject(new CanceledError());
+          this.drain(key, bucket);
+        }
+      };
+      const waiter: Waiter = {
+        priority,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener?.('abort', onAbort),
+      };
+      signal?.addEventListener?.('abort', onAbort);
+
+      // Keep the queue sorted by priority, first come first served within a priority
+      const index = bucket.queue.findIndex((queued) => queued.priority < priority);
+      bucket.queue.splice(index === -1 ? bucket.queue.length : index, 0, waiter);
+      this.drain(key, bucket);
+    });
+  }
+
+  /**
+   * Adjusts a bucket from the rate limit headers the server sent back.
+   */
+  update(key: string, headers: any): void {
+    if (this.config.adaptive === false) return;
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+
+    const remainingHeader =
+      findHeader(headers, 'ratelimit-remaining') ?? findHeader(headers, 'x-ratelimit-remaining');
+    const remaining = remainingHeader === undefined ? NaN : Number(remainingHeader);
+    const serverDelay = getServerDelay(headers);
+
+    if (remaining === 0 || findHeader(headers, 'retry-after') !== undefined) {
+      const wait = serverDelay ?? this.interval;
+      bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + wait);
+      if (Number.isFinite(this.requests)) bucket.tokens = 0;
+    } else if (Number.isFinite(remaining) && Number.isFinite(this.requests)) {
+      this.refill(bucket);
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+    }
+    this.drain(key, bucket);
+  }
+
+  getStats(): RateLimitStats {
+    const stats: RateLimitStats = { queued: 0, active: 0, buckets: {} };
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      this.refill(bucket);
+      stats.queued += bucket.queue.length;
+      stats.active += bucket.active;
+      stats.buckets[key] = {
+        queued: bucket.queue.length,
+        active: bucket.active,
+        tokens: Number.isFinite(bucket.tokens) ? Math.floor(bucket.tokens) : null,
+        blockedUntil: bucket.blockedUntil > now ? bucket.blockedUntil : null,
+      };
+    }
+    return stats;
+  }
+
+  private getBucket(key: string): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: this.requests,
+        lastRefill: Date.now(),
+        active: 0,
+        blockedUntil: 0,
+        queue: [],
+        timer: null,
+      };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    if (Number.isFinite(this.requests)) {
+      const earned = ((now - bucket.lastRefill) / this.interval) * this.requests;
+      bucket.tokens = Math.min(this.requests, bucket.tokens + earned);
+    }
+    bucket.lastRefill = now;
+  }
+
+  private drain(key: string, bucket: Bucket): void {
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = null;
+    }
+    this.refill(bucket);
+
+    while (bucket.queue.length > 0 && bucket.active < this.maxConcurrent) {
+      const now = Date.now();
+      if (bucket.blockedUntil > now) {
+        this.schedule(key, bucket, bucket.blockedUntil - now);
+        return;
+      }
+      if (bucket.tokens < 1) {
+        const wait = ((1 - bucket.tokens) / this.requests) * this.interval;
+        this.schedule(key, bucket, Math.ceil(wait));
+        return;
+      }
+
+      const waiter = bucket.queue.shift()!;
+      waiter.cleanup();
+      bucket.tokens -= 1;
+      bucket.active++;
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        bucket.active--;
+        this.drain(key, bucket);
+      });
+    }
+
+    if (bucket.queue.length === 0 && bucket.active === 0 && bucket.blockedUntil <= Date.now()) {
+      // Idle buckets that are back to full capacity carry no state worth keeping
+      if (!Number.isFinite(this.requests) || bucket.tokens >= this.requests) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private schedule(key: string, bucket: Bucket, delay: number): void {
+    bucket.timer = setTimeout(() => {
+      bucket.timer = null;
+      this.drain(key, bucket);
+    }, delay);
+  }
+}
@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+
+export type JitterStrategy = 'none' | 'full' | 'decorrelated';
+
+export interface RetryContext {
+  attempt: number;
+  delay: number;
+  error: any;
+  method: string;
+  url: string;
+}
+
+export interface RetryPolicy {
+  // Number of retries after the first attempt
+  retries?: number;
+  retryOnStatus?: number[];
+  retryOnErrorCodes?: string[];
+  methods?: string[];
+  // Requests with a method outside `methods` are still retried when they carry this header
+  idempotencyKeyHeader?: string;
+  // Add a generated idempotency key to POST/PATCH requests that don't have one
+  autoIdempotencyKey?: boolean;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: JitterStrategy;
+  respectRetryAfter?: boolean;
+  onRetry?: (context: RetryContext) => void | Promise<void>;
+}
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> &
+  Pick<RetryPolicy, 'onRetry'>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  retries: 3,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  retryOnErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+  ],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  idempotencyKeyHeader: 'Idempotency-Key',
+  autoIdempotencyKey: false,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 'full',
+  respectRetryAfter: true,
+};
+
+export function resolveRetryPolicy(
+  ...policies: Array<RetryPolicy | undefined>
+): ResolvedRetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy)) {
+      if (value !== undefined) {
+        (resolved as any)[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+export function findHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') {
+    const value = headers.get(name);
+    if (value !== undefined && value !== null) return String(value);
+  }
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === lower);
+  return key && headers[key] !== undefined && headers[key] !== null
+    ? String(headers[key])
+    : undefined;
+}
+
+/**
+ * Adds an idempotency key to non-idempotent requests when the policy asks for it, so they
+ * become eligible for retries. Returns the (possibly new) headers object.
+ */
+export function withIdempotencyKey(
+  policy: ResolvedRetryPolicy,
+  method: string,
+  headers: Record<string, any> = {}
+): Record<string, any> {
+  const upper = method.toUpperCase();
+  if (
+    !policy.autoIdempotencyKey ||
+    policy.methods.includes(upper) ||
+    findHeader(headers, policy.idempotencyKeyHeader) !== undefined
+  ) {
+    return headers;
+  }
+  return { ...headers, [policy.idempotencyKeyHeader]: randomUUID() };
+}
+
+export function isRetryable(
+  policy: ResolvedRetryPolicy,
+  error: any,
+  method: string,
+  headers?: any
+): boolean {
+  const upper = method.toUpperCase();
+  const methodAllowed =
+    policy.methods.includes(upper) ||
+    findHeader(headers, policy.idempotencyKeyHeader) !== undefined;
+  if (!methodAllowed) return false;
+
+  const status = error?.response?.status;
+  if (typeof status === 'number') {
+    return policy.retryOnStatus.includes(status);
+  }
+  return typeof error?.code === 'string' && policy.retryOnErrorCodes.includes(error.code);
+}
+
+/**
+ * Reads how long the server asked us to wait, from `Retry-After` (seconds or HTTP date) or
+ * `RateLimit-Reset` (seconds, or an epoch timestamp as some APIs send).
+ */
+export function getServerDelay(headers: any, now: number = Date.now()): number | undefined {
+  const retryAfter = findHeader(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = findHeader(headers, 'ratelimit-reset') ?? findHeader(headers, 'x-ratelimit-reset');
+  if (reset !== undefined) {
+    const value = Number(reset);
+    if (Number.isFinite(value)) {
+      return value > 1e9 ? Math.max(0, value * 1000 - now) : Math.max(0, value * 1000);
+    }
+  }
+  return undefined;
+}
+
+export function computeBackoff(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  previousDelay: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  switch (policy.jitter) {
+    case 'full':
+      return Math.floor(random() * exponential);
+    case 'decorrelated': {
+      const upper = Math.max(policy.baseDelay, previousDelay * 3);
+      const delay = policy.baseDelay + random() * (upper - policy.baseDelay);
+      return Math.floor(Math.min(policy.maxDelay, delay));
+    }
+    default:
+      return exponential;
+  }
+}
+
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  previousDelay: number,
+  error: any
+): number {
+  if (policy.respectRetryAfter) {
+    const serverDelay = getServerDelay(error?.response?.headers);
+    if (serverDelay !== undefined) {
+      return Math.min(policy.maxDelay, serverDelay);
+    }
+  }
+  return computeBackoff(policy, attempt, previousDelay);
+}
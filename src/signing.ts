@@ -0,0 +1,274 @@
+import axios, { AxiosAdapter, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { BinaryLike, createHash, createHmac, randomBytes, randomUUID } from 'crypto';
+
+/**
+ * A request as it goes out: after the body has been serialized and all other headers, including
+ * auth headers and those set by middleware, have been added.
+ */
+export interface SignableRequest {
+  // Upper case
+  method: string;
+  url: URL;
+  // Lower-case names
+  headers: Record<string, string>;
+  body: Buffer;
+  // Time of this attempt; every retry is signed again with a new one
+  date: Date;
+}
+
+// Returns the headers to add to the request
+export type RequestSigner = (
+  request: SignableRequest
+) => Record<string, string> | Promise<Record<string, string>>;
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface AwsSigV4Config {
+  // e.g. 'execute-api', 's3', 'lambda'
+  service: string;
+  region: string;
+  // A function is called for every request, so rotating credentials can be cached and renewed
+  credentials: AwsCredentials | (() => AwsCredentials | Promise<AwsCredentials>);
+  // Extra headers to sign on top of `host` and the `x-amz-*` headers
+  signedHeaders?: string[];
+}
+
+export type TimestampFormat = 'unix' | 'unix-ms' | 'iso8601' | ((date: Date) => string);
+
+export interface HmacSignerConfig {
+  secret: string | Buffer;
+  // Any digest Node's crypto supports; defaults to 'sha256'
+  algorithm?: string;
+  // Lines of the string to sign, in order: header names, or '(request-target)' for the method,
+  // path and query. Defaults to the request target, host, timestamp, nonce and digest.
+  signedHeaders?: string[];
+  // Defaults to 'X-Timestamp'
+  timestampHeader?: string;
+  // Defaults to 'unix' (seconds)
+  timestampFormat?: TimestampFormat;
+  // Defaults to 'X-Nonce'; false sends no nonce
+  nonceHeader?: string | false;
+  // Defaults to 'uuid'
+  nonceFormat?: 'uuid' | 'hex' | (() => string);
+  // Header carrying a hash of the body, as `SHA-256=<base64>`; defaults to 'Digest'
+  digestHeader?: string | false;
+  // Defaults to 'X-Signature'
+  signatureHeader?: string;
+  // Defaults to 'hex'
+  signatureEncoding?: 'hex' | 'base64';
+  // Builds the signature header's value; defaults to the bare signature
+  formatSignature?: (signature: string, signedHeaders: string[]) => string;
+}
+
+function sha256(data: BinaryLike): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: BinaryLike, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// encodeURIComponent leaves !'()* alone; AWS expects them encoded
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function canonicalPath(url: URL, service: string): string {
+  // S3 keys are encoded once; every other service expects the path encoded twice
+  const encodeSegment = (segment: string) => {
+    const once = encodeRfc3986(decodeURIComponent(segment));
+    return service === 's3' ? once : encodeRfc3986(once);
+  };
+  return url.pathname.split('/').map(encodeSegment).join('/') || '/';
+}
+
+function canonicalQuery(url: URL): string {
+  return [...url.searchParams]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * Signs requests with AWS Signature Version 4, as API Gateway and other AWS services expect.
+ */
+export function awsSigV4Signer(config: AwsSigV4Config): RequestSigner {
+  return async (request) => {
+    const credentials =
+      typeof config.credentials === 'function' ? await config.credentials() : config.credentials;
+    const timestamp = amzDate(request.date);
+    const day = timestamp.slice(0, 8);
+    const scope = `${day}/${config.region}/${config.service}/aws4_request`;
+    const payloadHash = sha256(request.body);
+
+    const added: Record<string, string> = { 'x-amz-date': timestamp };
+    if (credentials.sessionToken) added['x-amz-security-token'] = credentials.sessionToken;
+    if (config.service === 's3') added['x-amz-content-sha256'] = payloadHash;
+
+    const headers: Record<string, string> = { ...request.headers, ...added };
+    headers.host = headers.host || request.url.host;
+    const extra = (config.signedHeaders || []).map((name) => name.toLowerCase());
+    const names = Object.keys(headers)
+      .filter((name) => name === 'host' || name.startsWith('x-amz-') || extra.includes(name))
+      .sort();
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [
+      request.method,
+      canonicalPath(request.url, config.service),
+      canonicalQuery(request.url),
+      names.map((name) => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, sha256(canonicalRequest)].join(
+      '\n'
+    );
+
+    const key = [config.region, config.service, 'aws4_request'].reduce<Buffer>(
+      (current, part) => hmac(current, part),
+      hmac(`AWS4${credentials.secretAccessKey}`, day)
+    );
+    const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+    return {
+      ...added,
+      authorization:
+        `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  };
+}
+
+function formatTimestamp(date: Date, format: TimestampFormat): string {
+  if (typeof format === 'function') return format(date);
+  if (format === 'iso8601') return date.toISOString();
+  if (format === 'unix-ms') return String(date.getTime());
+  return String(Math.floor(date.getTime() / 1000));
+}
+
+function createNonce(format: HmacSignerConfig['nonceFormat']): string {
+  if (typeof format === 'function') return format();
+  return format === 'hex' ? randomBytes(16).toString('hex') : randomUUID();
+}
+
+// 'sha256' -> 'SHA-256', as used in Digest headers
+function digestLabel(algorithm: string): string {
+  return algorithm.toUpperCase().replace(/^SHA(\d)/, 'SHA-$1');
+}
+
+/**
+ * Signs requests with an HMAC over selected headers, for partner APIs with their own schemes.
+ * The string to sign has one `name: value` line per entry of `signedHeaders`.
+ */
+export function hmacSigner(config: HmacSignerConfig): RequestSigner {
+  const algorithm = config.algorithm || 'sha256';
+  const timestampHeader = (config.timestampHeader || 'X-Timestamp').toLowerCase();
+  const nonceHeader = config.nonceHeader === false ? null : config.nonceHeader || 'X-Nonce';
+  const digestHeader = config.digestHeader === false ? null : config.digestHeader || 'Digest';
+  const signedHeaders = (
+    config.signedHeaders || [
+      '(request-target)',
+      'host',
+      timestampHeader,
+      ...(nonceHeader ? [nonceHeader] : []),
+      ...(digestHeader ? [digestHeader] : []),
+    ]
+  ).map((name) => name.toLowerCase());
+
+  return (request) => {
+    const added: Record<string, string> = {
+      [timestampHeader]: formatTimestamp(request.date, config.timestampFormat || 'unix'),
+    };
+    if (nonceHeader) added[nonceHeader.toLowerCase()] = createNonce(config.nonceFormat);
+    if (digestHeader) {
+      const digest = createHash(algorithm).update(request.body).digest('base64');
+      added[digestHeader.toLowerCase()] = `${digestLabel(algorithm)}=${digest}`;
+    }
+
+    const headers: Record<string, string> = {
+      host: request.url.host,
+      ...request.headers,
+      ...added,
+    };
+    const lines = signedHeaders.map((name) => {
+      if (name === '(request-target)') {
+        return `${name}: ${request.method.toLowerCase()} ${request.url.pathname}${request.url.search}`;
+      }
+      if (headers[name] === undefined) throw new Error(`Cannot sign missing header "${name}"`);
+      return `${name}: ${headers[name]}`;
+    });
+    const signature = createHmac(algorithm, config.secret)
+      .update(lines.join('\n'))
+      .digest(config.signatureEncoding || 'hex');
+
+    return {
+      ...added,
+      [(config.signatureHeader || 'X-Signature').toLowerCase()]: config.formatSignature
+        ? config.formatSignature(signature, signedHeaders)
+        : signature,
+    };
+  };
+}
+
+function toBuffer(data: unknown): Buffer {
+  if (data === undefined || data === null) return Buffer.alloc(0);
+  if (typeof data === 'string') return Buffer.from(data);
+  if (Buffer.isBuffer(data)) return data;
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  if (ArrayBuffer.isView(data)) return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (data instanceof URLSearchParams) return Buffer.from(data.toString());
+  throw new Error(
+    'Request signing needs a string or binary body; streams and forms are not supported'
+  );
+}
+
+function toLowerCaseHeaders(headers: AxiosHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers.toJSON())) {
+    if (value !== undefined && value !== null && value !== false) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Wraps an Axios adapter so requests are signed just before they are sent, by the signer
+ * `getSigner` picks for them (if any). The adapter runs after Axios has serialized the body, and
+ * again for every retry.
+ */
+export function signingAdapter(
+  getSigner: (config: InternalAxiosRequestConfig) => RequestSigner | null | undefined,
+  next: AxiosAdapter
+): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig) => {
+    const signer = getSigner(config);
+    if (!signer) return next(config);
+    const headers = AxiosHeaders.from(config.headers);
+    const signed = await signer({
+      method: (config.method || 'get').toUpperCase(),
+      url: new URL(axios.getUri(config)),
+      headers: toLowerCaseHeaders(headers),
+      body: toBuffer(config.data),
+      date: new Date(),
+    });
+    config.headers = headers.set(signed);
+    // Everything a signer adds may carry credentials, so the cassette redacts it
+    const secretHeaders: string[] = (config as any)._secretHeaders || [];
+    (config as any)._secretHeaders = [...secretHeaders, ...Object.keys(signed)];
+    return next(config);
+  };
+}
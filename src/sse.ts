@@ -0,0 +1,192 @@
+import { AxiosResponse, CanceledError, GenericAbortSignal } from 'axios';
+import { Readable } from 'stream';
+import { HttpError, normalizeError } from './errors.js';
+
+export interface SSEEvent {
+  // 'message' unless the server named the event
+  event: string;
+  data: string;
+  // The last event id seen on the stream, which is what a reconnect resumes from
+  id?: string;
+}
+
+export interface SSEOptions {
+  method?: string;
+  params?: Record<string, any>;
+  data?: any;
+  headers?: Record<string, string>;
+  signal?: GenericAbortSignal;
+  // Resume from this event id on the first connection
+  lastEventId?: string;
+  // Reconnect when the stream ends or the connection drops; defaults to true
+  reconnect?: boolean;
+  // Delay before reconnecting, until the server sets one with a `retry` field
+  retryDelay?: number;
+  // Reconnects in a row without receiving an event before giving up
+  maxRetries?: number;
+  onOpen?: (response: AxiosResponse) => void;
+}
+
+export interface SSEConnectOptions extends SSEOptions {
+  onEvent: (event: SSEEvent) => void;
+  onError?: (error: Error) => void;
+  onClose?: () => void;
+}
+
+export interface SSEConnection {
+  close(): void;
+}
+
+/**
+ * Incremental `text/event-stream` parser. Feed it decoded text as it arrives and it returns the
+ * events completed by that chunk.
+ */
+export class SSEParser {
+  public lastEventId: string | undefined;
+  // Reconnection delay requested by the server
+  public retry: number | undefined;
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private started = false;
+
+  constructor(lastEventId?: string) {
+    this.lastEventId = lastEventId;
+  }
+
+  feed(chunk: string): SSEEvent[] {
+    let text = this.buffer + chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    // A trailing '\r' may be the first half of '\r\n', so it waits for the next chunk
+    let pending = '';
+    if (text.endsWith('\r')) {
+      pending = '\r';
+      text = text.slice(0, -1);
+    }
+    const lines = text.split(/\r\n|\r|\n/);
+    // The last piece has no line terminator yet
+    this.buffer = lines.pop() + pending;
+
+    const events: SSEEvent[] = [];
+    for (const line of lines) {
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | undefined {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): SSEEvent | undefined {
+    const data = this.data;
+    const event = this.eventType || 'message';
+    this.data = [];
+    this.eventType = '';
+    if (data.length === 0) return undefined;
+    return { event, data: data.join('\n'), id: this.lastEventId };
+  }
+}
+
+function sleep(ms: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+}
+
+/**
+ * Reads events from the streams `open` returns, reconnecting with `Last-Event-ID` when a stream
+ * ends or drops. HTTP errors are not reconnected; they are thrown as they are for REST calls.
+ */
+export async function* readEventStream(
+  open: (headers: Record<string, string>) => Promise<AxiosResponse<Readable>>,
+  options: SSEOptions = {}
+): AsyncGenerator<SSEEvent> {
+  const { signal } = options;
+  let lastEventId = options.lastEventId;
+  let retryDelay = options.retryDelay ?? 3000;
+  let retries = 0;
+
+  for (;;) {
+    let body: Readable | undefined;
+    const onAbort = () => body?.destroy();
+    signal?.addEventListener?.('abort', onAbort);
+    try {
+      const headers: Record<string, string> = {
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      };
+      if (lastEventId !== undefined) headers['Last-Event-ID'] = lastEventId;
+      const response = await open(headers);
+      // 204 is how a server tells the client to stop reconnecting
+      if (response.status === 204) {
+        response.data?.destroy?.();
+        return;
+      }
+      body = response.data;
+      options.onOpen?.(response);
+
+      const parser = new SSEParser(lastEventId);
+      const decoder = new TextDecoder();
+      for await (const chunk of body) {
+        const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        for (const event of parser.feed(text)) {
+          lastEventId = parser.lastEventId;
+          retries = 0;
+          yield event;
+        }
+        lastEventId = parser.lastEventId;
+        if (parser.retry !== undefined) retryDelay = parser.retry;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new CanceledError();
+      const normalized = normalizeError(error);
+      if (normalized instanceof HttpError || options.reconnect === false) throw normalized;
+      if (retries >= (options.maxRetries ?? Infinity)) throw normalized;
+    } finally {
+      signal?.removeEventListener?.('abort', onAbort);
+      body?.destroy();
+    }
+
+    if (signal?.aborted) throw new CanceledError();
+    if (options.reconnect === false) return;
+    if (retries >= (options.maxRetries ?? Infinity)) return;
+    retries++;
+    await sleep(retryDelay, signal);
+  }
+}
@@ -0,0 +1,144 @@
+import OpenAI from 'openai';
+import { JSONSchema, validateSchema } from './json-schema.js';
+
+export interface ToolContext {
+  // Id the model gave this call
+  callId: string;
+  // Conversation so far, including the assistant message that made the call
+  messages: OpenAI.Chat.ChatCompletionMessageParam[];
+  step: number;
+}
+
+/**
+ * A function tool the model can call. `handler` receives the parsed arguments once they have
+ * been validated against `parameters`; whatever it returns is sent back to the model, as is if
+ * it is a string and as JSON otherwise.
+ */
+export interface ToolDefinition<TArgs = any, TResult = any> {
+  name: string;
+  description?: string;
+  parameters: JSONSchema;
+  // Passed on to OpenAI's strict function calling
+  strict?: boolean;
+  handler: (args: TArgs, context: ToolContext) => TResult | Promise<TResult>;
+}
+
+// Keeps the handler's argument type attached to the definition
+export function defineTool<TArgs = any, TResult = any>(
+  tool: ToolDefinition<TArgs, TResult>
+): ToolDefinition<TArgs, TResult> {
+  return tool;
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: any;
+  result?: any;
+  // Set when the arguments were invalid or the handler threw; the model is told about it
+  error?: string;
+  step: number;
+}
+
+export interface RunWithToolsOptions
+  extends Omit<
+    OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    'messages' | 'tools' | 'model' | 'stream'
+  > {
+  model?: string;
+  // Model round trips before the loop gives up; defaults to 10
+  maxSteps?: number;
+  onToolCall?: (call: ToolCallRecord) => void;
+  // Usage tag for every model call the loop makes
+  tag?: string;
+}
+
+export interface RunWithToolsResult {
+  // Final assistant text, or null when the loop stopped at maxSteps
+  content: string | null;
+  // The whole conversation: input messages, assistant turns and tool results
+  messages: OpenAI.Chat.ChatCompletionMessageParam[];
+  toolCalls: ToolCallRecord[];
+  steps: number;
+  stopReason: 'completed' | 'max_steps';
+  usage: OpenAI.CompletionUsage;
+}
+
+export function toOpenAITool(tool: ToolDefinition): OpenAI.Chat.ChatCompletionTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as Record<string, unknown>,
+      ...(tool.strict !== undefined ? { strict: tool.strict } : {}),
+    },
+  };
+}
+
+export function addUsage(
+  total: OpenAI.CompletionUsage,
+  usage: OpenAI.CompletionUsage | undefined
+): OpenAI.CompletionUsage {
+  if (!usage) return total;
+  return {
+    prompt_tokens: total.prompt_tokens + (usage.prompt_tokens ?? 0),
+    completion_tokens: total.completion_tokens + (usage.completion_tokens ?? 0),
+    total_tokens: total.total_tokens + (usage.total_tokens ?? 0),
+  };
+}
+
+/**
+ * Parses, validates and runs one tool call. Problems are reported on the record rather than
+ * thrown so the model gets a chance to correct itself.
+ */
+export async function runToolCall(
+  call: OpenAI.Chat.ChatCompletionMessageToolCall,
+  tools: Map<string, ToolDefinition>,
+  context: ToolContext
+): Promise<ToolCallRecord> {
+  const record: ToolCallRecord = {
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments,
+    step: context.step,
+  };
+
+  const tool = tools.get(call.function.name);
+  if (!tool) {
+    record.error = `Unknown tool "${call.function.name}"`;
+    return record;
+  }
+
+  try {
+    record.arguments = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    record.error = 'Arguments are not valid JSON';
+    return record;
+  }
+
+  const problems = validateSchema(record.arguments, tool.parameters);
+  if (problems.length > 0) {
+    record.error = `Invalid arguments: ${problems.join('; ')}`;
+    return record;
+  }
+
+  try {
+    record.result = await tool.handler(record.arguments, context);
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+  }
+  return record;
+}
+
+export function toToolMessage(record: ToolCallRecord): OpenAI.Chat.ChatCompletionToolMessageParam {
+  let content: string;
+  if (record.error !== undefined) {
+    content = JSON.stringify({ error: record.error });
+  } else if (typeof record.result === 'string') {
+    content = record.result;
+  } else {
+    content = JSON.stringify(record.result ?? null);
+  }
+  return { role: 'tool', tool_call_id: record.id, content };
+}
@@ -0,0 +1,164 @@
+import OpenAI from 'openai';
+import { BudgetExceededError } from './errors.js';
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageConfig {
+  // Merged over the built-in prices; keys match exact model names or dated variants of them
+  prices?: PriceTable;
+  // Spend in US dollars after which calls are rejected with BudgetExceededError
+  budget?: number;
+  // Width of the time windows usage is grouped into, in ms; defaults to one hour
+  window?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated US dollars; models missing from the price table count as free
+  cost: number;
+}
+
+export interface UsageWindow extends UsageTotals {
+  // ISO timestamp the window starts at
+  start: string;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  // Calls answered from the cache, priced as if they had been sent
+  saved: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byTag: Record<string, UsageTotals>;
+  byWindow: UsageWindow[];
+  budget: number | null;
+}
+
+export interface UsageEntry {
+  model: string;
+  usage?: OpenAI.CompletionUsage | null;
+  tag?: string;
+  cached?: boolean;
+}
+
+export const defaultPrices: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, prompt: number, completion: number, cost: number): void {
+  totals.calls++;
+  totals.promptTokens += prompt;
+  totals.completionTokens += completion;
+  totals.totalTokens += prompt + completion;
+  totals.cost += cost;
+}
+
+/**
+ * Token and cost accounting for OpenAI calls, grouped by model, by tag and by time window.
+ */
+export class UsageTracker {
+  private prices: PriceTable;
+  private window: number;
+  private total = emptyTotals();
+  private saved = emptyTotals();
+  private byModel = new Map<string, UsageTotals>();
+  private byTag = new Map<string, UsageTotals>();
+  private byWindow = new Map<number, UsageTotals>();
+
+  constructor(private config: UsageConfig = {}) {
+    this.prices = { ...defaultPrices, ...config.prices };
+    this.window = config.window ?? 60 * 60 * 1000;
+  }
+
+  // Price for a model, falling back to the longest entry it starts with (e.g. gpt-4o-2024-08-06)
+  priceFor(model: string): ModelPrice | undefined {
+    if (this.prices[model]) return this.prices[model];
+    const match = Object.keys(this.prices)
+      .filter((name) => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.prices[match] : undefined;
+  }
+
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.priceFor(model);
+    if (!price) return 0;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  record(entry: UsageEntry): void {
+    const prompt = entry.usage?.prompt_tokens ?? 0;
+    const completion = entry.usage?.completion_tokens ?? 0;
+    const cost = this.estimateCost(entry.model, prompt, completion);
+
+    if (entry.cached) {
+      addTo(this.saved, prompt, completion, cost);
+      return;
+    }
+
+    addTo(this.total, prompt, completion, cost);
+    addTo(this.bucket(this.byModel, entry.model), prompt, completion, cost);
+    if (entry.tag) addTo(this.bucket(this.byTag, entry.tag), prompt, completion, cost);
+    const start = Math.floor(Date.now() / this.window) * this.window;
+    addTo(this.bucket(this.byWindow, start), prompt, completion, cost);
+  }
+
+  // Throws once the recorded spend has reached the budget
+  assertWithinBudget(): void {
+    const { budget } = this.config;
+    if (budget !== undefined && this.total.cost >= budget) {
+      throw new BudgetExceededError(this.total.cost, budget);
+    }
+  }
+
+  summary(): UsageSummary {
+    const copy = <K>(map: Map<K, UsageTotals>) =>
+      Object.fromEntries([...map].map(([key, totals]) => [key, { ...totals }]));
+    return {
+      total: { ...this.total },
+      saved: { ...this.saved },
+      byModel: copy(this.byModel),
+      byTag: copy(this.byTag),
+      byWindow: [...this.byWindow]
+        .sort(([a], [b]) => a - b)
+        .map(([start, totals]) => ({ start: new Date(start).toISOString(), ...totals })),
+      budget: this.config.budget ?? null,
+    };
+  }
+
+  toJSON(): UsageSummary {
+    return this.summary();
+  }
+
+  reset(): void {
+    this.total = emptyTotals();
+    this.saved = emptyTotals();
+    this.byModel.clear();
+    this.byTag.clear();
+    this.byWindow.clear();
+  }
+
+  private bucket<K>(map: Map<K, UsageTotals>, key: K): UsageTotals {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  }
+}
@@ -0,0 +1,240 @@
+import WebSocket from 'ws';
+import { HttpError, NetworkError, RateLimitError, TimeoutError } from './errors.js';
+import { JitterStrategy, computeBackoff, resolveRetryPolicy } from './retry.js';
+
+export interface ReconnectOptions {
+  // Reconnect attempts before giving up; unlimited by default
+  retries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: JitterStrategy;
+}
+
+export interface WebSocketOptions {
+  onOpen?: () => void;
+  onMessage?: (data: any) => void;
+  onError?: (error: Error) => void;
+  // Only called once the connection is closed for good, not when it drops and reconnects
+  onClose?: (code?: number, reason?: string) => void;
+  onReconnecting?: (attempt: number, delay: number) => void;
+  // Called after subscriptions were replayed and before queued messages are flushed
+  onReconnected?: (attempt: number) => void;
+  // false disables reconnecting
+  reconnect?: boolean | ReconnectOptions;
+  // Ping interval in ms; 0 disables the heartbeat
+  heartbeatInterval?: number;
+  // How long to wait for a pong before treating the connection as dead
+  heartbeatTimeout?: number;
+  // Messages held while disconnected; the oldest are dropped when it is full
+  maxQueueSize?: number;
+  protocols?: string | string[];
+  headers?: Record<string, string>;
+}
+
+export interface ManagedWebSocketOptions extends WebSocketOptions {
+  // Resolved on every connect, so reconnects pick up refreshed tokens
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+}
+
+interface Subscription {
+  message: any;
+  unsubscribeMessage?: any;
+}
+
+function serialize(data: any): any {
+  if (typeof data === 'string' || Buffer.isBuffer(data) || ArrayBuffer.isView(data)) return data;
+  if (data instanceof ArrayBuffer) return data;
+  return JSON.stringify(data);
+}
+
+function isTransient(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  if (error instanceof RateLimitError) return true;
+  return error instanceof HttpError && error.status >= 500;
+}
+
+/**
+ * A WebSocket connection that reconnects with backoff, detects dead connections with ping/pong,
+ * queues outgoing messages while disconnected and replays subscriptions after a reconnect.
+ */
+export class ManagedWebSocket {
+  private ws: WebSocket | null = null;
+  private queue: any[] = [];
+  private subscriptions = new Set<Subscription>();
+  private attempt = 0;
+  private delay = 0;
+  private opened = false;
+  private closed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private url: string,
+    private options: ManagedWebSocketOptions = {}
+  ) {
+    this.connect();
+  }
+
+  // The underlying socket, or null while reconnecting
+  get socket(): WebSocket | null {
+    return this.ws;
+  }
+
+  get readyState(): number {
+    if (this.closed) return WebSocket.CLOSED;
+    return this.ws ? this.ws.readyState : WebSocket.CONNECTING;
+  }
+
+  get queuedMessages(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Sends `data` now, or queues it until the connection is open. Objects are sent as JSON.
+   */
+  send(data: any): void {
+    if (this.closed) {
+      throw new Error('WebSocket connection is closed');
+    }
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(serialize(data));
+      return;
+    }
+    this.queue.push(data);
+    const maxQueueSize = this.options.maxQueueSize ?? 1000;
+    if (this.queue.length > maxQueueSize) {
+      this.queue.splice(0, this.queue.length - maxQueueSize);
+    }
+  }
+
+  /**
+   * Sends `message` now and again after every reconnect. The returned function stops that and
+   * sends `unsubscribeMessage`, if given.
+   */
+  subscribe(message: any, unsubscribeMessage?: any): () => void {
+    const subscription: Subscription = { message, unsubscribeMessage };
+    this.subscriptions.add(subscription);
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(serialize(message));
+    }
+    return () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      if (unsubscribeMessage !== undefined && this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(serialize(unsubscribeMessage));
+      }
+    };
+  }
+
+  close(code = 1000, reason?: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.queue = [];
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopHeartbeat();
+    if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+      this.ws.close(code, reason);
+    } else {
+      this.options.onClose?.(code, reason);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    let ws: WebSocket;
+    try {
+      const headers = { ...(await this.options.getHeaders?.()), ...this.options.headers };
+      if (this.closed) return;
+      ws = new WebSocket(this.url, this.options.protocols, { headers });
+    } catch (error: any) {
+      this.options.onError?.(error);
+      // The token endpoint being unreachable, overloaded or down can be temporary, but a bad URL
+      // or rejected credentials won't fix themselves, so there's no point reconnecting for those
+      if (isTransient(error)) {
+        this.scheduleReconnect(1006, error.message);
+      } else {
+        this.close();
+      }
+      return;
+    }
+    this.ws = ws;
+
+    ws.on('open', () => {
+      const attempt = this.attempt;
+      this.attempt = 0;
+      this.delay = 0;
+      this.startHeartbeat(ws);
+      for (const subscription of this.subscriptions) {
+        ws.send(serialize(subscription.message));
+      }
+      if (this.opened) {
+        this.options.onReconnected?.(attempt);
+      } else {
+        this.opened = true;
+        this.options.onOpen?.();
+      }
+      for (const data of this.queue.splice(0)) {
+        ws.send(serialize(data));
+      }
+    });
+    ws.on('message', (data) => this.options.onMessage?.(data));
+    ws.on('pong', () => {
+      if (this.pongTimer) clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    });
+    ws.on('error', (error) => this.options.onError?.(error));
+    ws.on('close', (code, reason) => {
+      if (ws !== this.ws) return;
+      this.ws = null;
+      this.stopHeartbeat();
+      if (this.closed) {
+        this.options.onClose?.(code, reason.toString());
+        return;
+      }
+      this.scheduleReconnect(code, reason.toString());
+    });
+  }
+
+  private scheduleReconnect(code: number, reason: string): void {
+    const reconnect = this.options.reconnect ?? true;
+    const settings: ReconnectOptions | null =
+      reconnect === false ? null : reconnect === true ? {} : reconnect;
+    if (!settings || this.attempt >= (settings.retries ?? Infinity)) {
+      this.closed = true;
+      this.queue = [];
+      this.options.onClose?.(code, reason);
+      return;
+    }
+
+    this.attempt++;
+    const policy = resolveRetryPolicy({
+      baseDelay: settings.baseDelay,
+      maxDelay: settings.maxDelay,
+      jitter: settings.jitter,
+    });
+    this.delay = computeBackoff(policy, this.attempt, this.delay);
+    this.options.onReconnecting?.(this.attempt, this.delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.delay);
+  }
+
+  private startHeartbeat(ws: WebSocket): void {
+    const interval = this.options.heartbeatInterval ?? 30000;
+    if (interval <= 0) return;
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pongTimer) return;
+      ws.ping();
+      // No pong in time means the connection is dead even though no close frame arrived
+      this.pongTimer = setTimeout(() => ws.terminate(), this.options.heartbeatTimeout ?? 10000);
+    }, interval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.heartbeatTimer = null;
+    this.pongTimer = null;
+  }
+}
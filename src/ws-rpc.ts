@@ -0,0 +1,269 @@
+import { CanceledError, GenericAbortSignal } from 'axios';
+import { NetworkError, RpcError, TimeoutError } from './errors.js';
+
+export interface RpcMessage {
+  id?: string | number;
+  // Event name for server pushes
+  type?: string;
+  payload?: any;
+  result?: any;
+  error?: { code?: number | string; message?: string; data?: any };
+}
+
+/**
+ * Translates calls into wire messages and incoming messages back into responses and events.
+ */
+export interface RpcCodec {
+  encodeRequest(id: number, method: string, params?: any): any;
+  encodeNotification(method: string, params?: any): any;
+  decode(message: any): RpcMessage[];
+}
+
+export const jsonRpcCodec: RpcCodec = {
+  encodeRequest: (id, method, params) => ({ jsonrpc: '2.0', id, method, params }),
+  encodeNotification: (method, params) => ({ jsonrpc: '2.0', method, params }),
+  decode(message) {
+    // Batch responses arrive as arrays
+    const items = Array.isArray(message) ? message : [message];
+    return items.map((item) =>
+      item.method !== undefined
+        ? { id: item.id, type: item.method, payload: item.params }
+        : { id: item.id, result: item.result, error: item.error }
+    );
+  },
+};
+
+// `{id, type, payload}` envelopes; replies carry the request id and an optional `error`
+export const envelopeCodec: RpcCodec = {
+  encodeRequest: (id, type, payload) => ({ id, type, payload }),
+  encodeNotification: (type, payload) => ({ type, payload }),
+  decode: (message) => [
+    {
+      id: message.id,
+      type: message.type,
+      payload: message.payload,
+      result: message.payload,
+      error: message.error,
+    },
+  ],
+};
+
+export interface RpcOptions {
+  // 'json-rpc' (default), 'envelope' or a custom codec
+  codec?: 'json-rpc' | 'envelope' | RpcCodec;
+  // Per-call timeout in ms, counted from when the call is sent
+  timeout?: number;
+  // Calls beyond this many unanswered ones wait until a reply frees a slot
+  maxPending?: number;
+}
+
+export interface RpcCallOptions {
+  timeout?: number;
+  signal?: GenericAbortSignal;
+}
+
+export type RpcHandler = (payload: any, message: RpcMessage) => void;
+
+interface Transport {
+  send(data: any): void;
+  close(): void;
+  // When given, calls sent while it isn't OPEN (1) count as still queued by the transport
+  readonly readyState?: number;
+}
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+  sent: boolean;
+}
+
+interface QueuedCall {
+  start: () => void;
+  reject: (error: unknown) => void;
+}
+
+function resolveCodec(codec: RpcOptions['codec']): RpcCodec {
+  if (codec === 'envelope') return envelopeCodec;
+  if (!codec || codec === 'json-rpc') return jsonRpcCodec;
+  return codec;
+}
+
+/**
+ * Request/response calls and event routing on top of a WebSocket connection.
+ */
+export class WebSocketRpc {
+  private codec: RpcCodec;
+  private pending = new Map<string, PendingCall>();
+  private waiting: QueuedCall[] = [];
+  private handlers = new Map<string, Set<RpcHandler>>();
+  private lastId = 0;
+
+  constructor(
+    private transport: Transport,
+    private options: RpcOptions = {}
+  ) {
+    this.codec = resolveCodec(options.codec);
+  }
+
+  get pendingCalls(): number {
+    return this.pending.size;
+  }
+
+  get queuedCalls(): number {
+    return this.waiting.length;
+  }
+
+  call<T = any>(method: string, params?: any, options: RpcCallOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const id = ++this.lastId;
+      const key = String(id);
+      const onAbort = () => {
+        const queued = this.waiting.findIndex((entry) => entry.start === start);
+        if (queued >= 0) this.waiting.splice(queued, 1);
+        this.settle(key);
+        reject(new CanceledError());
+      };
+      const start = () => {
+        const timeout = options.timeout ?? this.options.timeout ?? 30000;
+        const timer = setTimeout(() => {
+          this.settle(key);
+          signal?.removeEventListener?.('abort', onAbort);
+          reject(new TimeoutError(`RPC call ${method} timed out after ${timeout}ms`));
+        }, timeout);
+        this.pending.set(key, {
+          resolve: (value) => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve(value);
+          },
+          reject: (error) => {
+            signal?.removeEventListener?.('abort', onAbort);
+            reject(error);
+          },
+          timer,
+          sent: (this.transport.readyState ?? 1) === 1,
+        });
+        try {
+          this.transport.send(this.codec.encodeRequest(id, method, params));
+        } catch (error) {
+          this.settle(key);
+          reject(error);
+        }
+      };
+      signal?.addEventListener?.('abort', onAbort);
+
+      if (this.pending.size >= (this.options.maxPending ?? 100)) {
+        this.waiting.push({ start, reject });
+      } else {
+        start();
+      }
+    });
+  }
+
+  // Sends a message that expects no reply
+  notify(method: string, params?: any): void {
+    this.transport.send(this.codec.encodeNotification(method, params));
+  }
+
+  /**
+   * Routes server pushes of the given type to `handler`; `'*'` receives every push. Returns a
+   * function that removes the handler.
+   */
+  on(type: string, handler: RpcHandler): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  /**
+   * Feeds an incoming WebSocket message in. Returns false when it was neither a reply nor a
+   * routable push, so the caller can handle it some other way.
+   */
+  handleMessage(data: any): boolean {
+    let decoded: RpcMessage[];
+    try {
+      const message =
+        typeof data === 'string' || Buffer.isBuffer(data) ? JSON.parse(data.toString()) : data;
+      decoded = this.codec.decode(message);
+    } catch {
+      return false;
+    }
+
+    let handled = false;
+    for (const message of decoded) {
+      const key = message.id !== undefined && message.id !== null ? String(message.id) : '';
+      const call = this.pending.get(key);
+      if (call) {
+        this.settle(key);
+        if (message.error) {
+          const { code, message: text, data: details } = message.error;
+          call.reject(new RpcError(text || 'RPC call failed', code, details));
+        } else {
+          call.resolve(message.result);
+        }
+        handled = true;
+      } else if (message.type !== undefined) {
+        handled = this.emit(message) || handled;
+      }
+    }
+    return handled;
+  }
+
+  /**
+   * Rejects calls that went out on the socket and are still waiting for a reply, e.g. because
+   * the connection dropped and the replies will never arrive. Calls the transport is still
+   * holding on to are kept.
+   */
+  rejectPending(error: unknown = new NetworkError('WebSocket connection lost')): void {
+    for (const [key, call] of [...this.pending]) {
+      if (!call.sent) continue;
+      this.settle(key);
+      call.reject(error);
+    }
+  }
+
+  // Called when the transport flushes the calls it was holding, e.g. once the socket opens
+  markSent(): void {
+    for (const call of this.pending.values()) call.sent = true;
+  }
+
+  close(): void {
+    const error = new NetworkError('WebSocket RPC connection closed');
+    for (const queued of this.waiting.splice(0)) queued.reject(error);
+    for (const [key, call] of [...this.pending]) {
+      this.settle(key);
+      call.reject(error);
+    }
+    this.transport.close();
+  }
+
+  private emit(message: RpcMessage): boolean {
+    const handlers = [
+      ...(this.handlers.get(message.type!) || []),
+      ...(this.handlers.get('*') || []),
+    ];
+    for (const handler of handlers) handler(message.payload, message);
+    return handlers.length > 0;
+  }
+
+  // Removes a call from the pending set and lets the next queued call through
+  private settle(key: string): void {
+    const call = this.pending.get(key);
+    if (!call) return;
+    clearTimeout(call.timer);
+    this.pending.delete(key);
+    const next = this.waiting.shift();
+    next?.start();
+  }
+}
@@ -1,7 +1,6 @@
 import { jest } from '@jest/globals';
-import UniversalAPIWrapper from '../src/app';
+import UniversalAPIWrapper from '../src/app.js';
 import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
-import memoryCache from 'memory-cache';
 
 const mockAxios = {
   create: jest.fn(() => ({
@@ -15,13 +14,6 @@ const mockAxios = {
 
 jest.mock('axios', () => mockAxios);
 
-// Mock memory-cache to prevent memory leaks
-jest.mock('memory-cache', () => ({
-  put: jest.fn(),
-  get: jest.fn(),
-  clear: jest.fn(),
-}));
-
 describe('UniversalAPIWrapper with JSONPlaceholder', () => {
   let wrapper: UniversalAPIWrapper;
   let axiosInstance: any;
@@ -39,8 +31,6 @@ describe('UniversalAPIWrapper with JSONPlaceholder', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
-    // Clear any cached data
-    memoryCache.clear();
   });
 
   afterAll(() => {
@@ -0,0 +1,124 @@
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper from '../src/app.js';
+import { applyCredentials, credentialKey } from '../src/auth.js';
+
+describe('applyCredentials', () => {
+  it('prefers an OAuth2 token, then a bearer token, then basic auth', () => {
+    const basicAuth = { username: 'user', password: 'pass' };
+
+    expect(applyCredentials({ bearerToken: 'b', basicAuth }, 'oauth').headers).toEqual({
+      Authorization: 'Bearer oauth',
+    });
+    expect(applyCredentials({ bearerToken: 'b', basicAuth }).headers).toEqual({
+      Authorization: 'Bearer b',
+    });
+    expect(applyCredentials({ basicAuth }).headers).toEqual({
+      Authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+    });
+  });
+
+  it('places the API key in a named header or query parameter', () => {
+    expect(applyCredentials({ apiKey: 'k' }).headers).toEqual({ 'X-API-Key': 'k' });
+    expect(applyCredentials({ apiKey: 'k', apiKeyName: 'Api-Token' }).headers).toEqual({
+      'Api-Token': 'k',
+    });
+    expect(applyCredentials({ apiKey: 'k', apiKeyIn: 'query' })).toMatchObject({
+      headers: {},
+      params: { api_key: 'k' },
+    });
+  });
+
+  it('keys credentials by value, including signer functions', () => {
+    const signer = () => ({});
+
+    expect(credentialKey({ apiKey: 'a' })).toBe(credentialKey({ apiKey: 'a' }));
+    expect(credentialKey({ apiKey: 'a' })).not.toBe(credentialKey({ apiKey: 'b' }));
+    expect(credentialKey({ signer })).toBe(credentialKey({ signer }));
+    expect(credentialKey({ signer })).not.toBe(credentialKey({ signer: () => ({}) }));
+    expect(credentialKey({ apiKey: 'secret-key' })).not.toContain('secret-key');
+  });
+});
+
+describe('Per-request credentials', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          url: req.url,
+          authorization: req.headers.authorization ?? null,
+          apiKey: req.headers['x-api-key'] ?? null,
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('lets a call replace or disable the instance credentials', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      auth: { apiKey: 'instance-key', hmac: { secret: 'secret' } },
+    });
+
+    const replaced = await api.get('/a', {}, { auth: { bearerToken: 'call-token' } });
+    const disabled = await api.get('/b', {}, { auth: false });
+
+    expect(replaced.data).toMatchObject({ authorization: 'Bearer call-token', apiKey: null });
+    expect(requests[0].headers['x-signature']).toBeUndefined();
+    expect(disabled.data).toMatchObject({ authorization: null, apiKey: null });
+    expect(requests[1].headers['x-signature']).toBeUndefined();
+  });
+
+  it('resolves credentials per request and keeps tenants apart in the cache', async () => {
+    const tokens: Record<string, string> = { acme: 'acme-token', globex: 'globex-token' };
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      cacheEnabled: true,
+      auth: {
+        bearerToken: 'fallback',
+        credentialResolver: ({ options }) =>
+          options.meta?.tenant ? { bearerToken: tokens[options.meta.tenant] } : null,
+      },
+    });
+
+    const acme = await api.get('/me', {}, { meta: { tenant: 'acme' } });
+    const globex = await api.get('/me', {}, { meta: { tenant: 'globex' } });
+    const acmeAgain = await api.get('/me', {}, { meta: { tenant: 'acme' } });
+    const fallback = await api.get('/me');
+
+    expect(acme.data.authorization).toBe('Bearer acme-token');
+    expect(globex.data.authorization).toBe('Bearer globex-token');
+    expect(globex.fromCache).toBe(false);
+    expect(acmeAgain.fromCache).toBe(true);
+    expect(acmeAgain.data.authorization).toBe('Bearer acme-token');
+    expect(fallback.data.authorization).toBe('Bearer fallback');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('sends the API key as a query parameter when configured', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      auth: { apiKey: 'query-key', apiKeyIn: 'query', apiKeyName: 'key' },
+    });
+
+    const response = await api.get('/search', { q: 'x' });
+
+    expect(response.data).toMatchObject({ url: '/search?q=x&key=query-key', apiKey: null });
+  });
+});
@@ -0,0 +1,201 @@
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import UniversalAPIWrapper, { FileCacheStore, MemoryCacheStore } from '../src/app.js';
+import { matchesPattern } from '../src/cache.js';
+
+describe('Cache stores', () => {
+  describe('MemoryCacheStore', () => {
+    it('evicts the least recently used entry when full', () => {
+      const store = new MemoryCacheStore({ maxEntries: 2 });
+      store.set('a', 1, 1000);
+      store.set('b', 2, 1000);
+      store.get('a');
+      store.set('c', 3, 1000);
+
+      expect(store.keys().sort()).toEqual(['a', 'c']);
+      expect(store.get('b')).toBeUndefined();
+    });
+
+    it('expires entries after their ttl', async () => {
+      const store = new MemoryCacheStore();
+      store.set('a', 1, 5);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(store.get('a')).toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nexus-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('keeps entries across store instances', async () => {
+      await new FileCacheStore({ directory }).set('key', { id: 1 }, 1000);
+      const reopened = new FileCacheStore({ directory });
+
+      expect(await reopened.get('key')).toEqual({ id: 1 });
+      expect(await reopened.keys()).toEqual(['key']);
+
+      await reopened.clear();
+      expect(await reopened.get('key')).toBeUndefined();
+    });
+
+    it('handles concurrent writes to one key', async () => {
+      const store = new FileCacheStore({ directory });
+
+      await Promise.all([1, 2, 3].map((id) => store.set('key', { id }, 1000)));
+
+      expect([1, 2, 3]).toContainEqual((await store.get('key')).id);
+      expect(await fs.readdir(directory)).toHaveLength(1);
+    });
+  });
+
+  it('matches wildcard and exact path patterns', () => {
+    expect(matchesPattern('/users/*', '/users/1?expand=true')).toBe(true);
+    expect(matchesPattern('/users', '/users/')).toBe(true);
+    expect(matchesPattern('/users', '/users/1')).toBe(false);
+    expect(matchesPattern(/^\/posts/, '/posts/2')).toBe(true);
+  });
+});
+
+describe('UniversalAPIWrapper caching', () => {
+  let server: Server;
+  let baseURL: string;
+  let received: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ url: req.url, count: received.length }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  const createWrapper = (config = {}) =>
+    new UniversalAPIWrapper({ baseURL, cacheEnabled: true, ...config });
+
+  it('serves repeated GETs from the cache', async () => {
+    const api = createWrapper();
+
+    const first = await api.get('/users/1');
+    const cached = await api.get('/users/1');
+
+    expect(first.fromCache).toBe(false);
+    expect(cached).toMatchObject({
+      status: 200,
+      data: { url: '/users/1', count: 1 },
+      fromCache: true,
+      revalidated: false,
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it('hands out copies of cached data', async () => {
+    const api = createWrapper();
+
+    const first = await api.get('/users/1');
+    first.data.count = 999;
+    const cached = await api.get('/users/1');
+    cached.data.count = 998;
+
+    expect((await api.get('/users/1')).data.count).toBe(1);
+  });
+
+  it('keeps a separate cache per instance', async () => {
+    await createWrapper().get('/users/1');
+    await createWrapper().get('/users/1');
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('applies per-route ttl rules', async () => {
+    const api = createWrapper({ cacheRules: [{ match: '/live/*', ttl: 0 }] });
+
+    await api.get('/live/score');
+    await api.get('/live/score');
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('invalidates entries by pattern and clears the store', async () => {
+    const api = createWrapper();
+    await api.get('/users/1');
+    await api.get('/users/2');
+    await api.get('/posts/1');
+
+    expect(await api.invalidate('/users/*')).toBe(2);
+    await api.get('/posts/1');
+    expect(received).toHaveLength(3);
+
+    await api.clear();
+    await api.get('/posts/1');
+    expect(received).toHaveLength(4);
+  });
+
+  it('invalidates cached GETs for a resource after a mutation', async () => {
+    const api = createWrapper();
+    await api.get('/users');
+    await api.get('/users/1');
+    await api.get('/posts/1');
+
+    await api.put('/users/1', { name: 'updated' });
+    await api.get('/users');
+    await api.get('/users/1');
+    await api.get('/posts/1');
+
+    expect(received.map((req) => `${req.method} ${req.url}`)).toEqual([
+      'GET /users',
+      'GET /users/1',
+      'GET /posts/1',
+      'PUT /users/1',
+      'GET /users',
+      'GET /users/1',
+    ]);
+  });
+
+  it('can use a persistent file store', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nexus-cache-'));
+    try {
+      await createWrapper({ cacheStore: new FileCacheStore({ directory }) }).get('/users/1');
+      const restarted = createWrapper({ cacheStore: new FileCacheStore({ directory }) });
+
+      expect((await restarted.get('/users/1')).data).toEqual({ url: '/users/1', count: 1 });
+      expect(received).toHaveLength(1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('does not fail requests when the cache write fails', async () => {
+    const store = new MemoryCacheStore();
+    store.set = () => {
+      throw new Error('disk full');
+    };
+    const api = createWrapper({ cacheStore: store });
+
+    const responses = await Promise.all([api.get('/users/1'), api.get('/users/1')]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+  });
+});
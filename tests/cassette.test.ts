@@ -0,0 +1,209 @@
+import http, { IncomingMessage, Server } from 'http';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { Cassette, CassetteMismatchError, HttpError } from '../src/app.js';
+import OpenAIWrapper from '../src/openai.js';
+
+describe('Cassette', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: IncomingMessage[];
+  let directory: string;
+  let file: string;
+  const audio = Buffer.from([0xff, 0xfb, 0x00, 0x01, 0x80]);
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      if (req.url === '/missing') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end('{"error":"not found"}');
+      } else if (req.url === '/audio/speech') {
+        res.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+        res.end(audio);
+      } else {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=1' });
+          res.end(JSON.stringify({ path: req.url, body: body ? JSON.parse(body) : null }));
+        });
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    file = path.join(directory, 'fixtures', 'api.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const wrapper = (mode: 'record' | 'replay', strict = false) =>
+    new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 0,
+      auth: { apiKey: 'secret-key', bearerToken: 'secret-token' },
+      cassette: { path: file, mode, strict },
+    });
+
+  it('records interactions with secrets redacted and replays them offline', async () => {
+    const recorder = wrapper('record');
+    const recorded = await recorder.post('/users', { name: 'Ada' });
+    await recorder.get('/users', { page: 2 });
+
+    const fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(fixture.interactions).toHaveLength(2);
+    expect(fixture.interactions[0].request).toMatchObject({
+      method: 'POST',
+      url: `${baseURL}/users`,
+      body: { encoding: 'json', data: { name: 'Ada' } },
+    });
+    expect(fixture.interactions[0].request.headers['x-api-key']).toBe('[REDACTED]');
+    expect(fixture.interactions[0].request.headers['authorization']).toBe('[REDACTED]');
+    expect(fixture.interactions[0].response.headers['set-cookie']).toBe('[REDACTED]');
+    expect(fixture.interactions[1].request.url).toBe(`${baseURL}/users?page=2`);
+    expect(JSON.stringify(fixture)).not.toContain('secret');
+
+    requests = [];
+    const replayer = wrapper('replay', true);
+    const replayed = await replayer.post('/users', { name: 'Ada' });
+
+    expect(replayed.data).toEqual(recorded.data);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('redacts headers added by request signing', async () => {
+    const recorder = new UniversalAPIWrapper({
+      baseURL,
+      auth: {
+        awsSigV4: {
+          service: 'execute-api',
+          region: 'eu-west-1',
+          credentials: { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'SESSION' },
+        },
+      },
+      cassette: { path: file, mode: 'record' },
+    });
+    await recorder.get('/users');
+    const hmac = new UniversalAPIWrapper({
+      baseURL,
+      auth: { hmac: { secret: 'secret', signatureHeader: 'X-Partner-Signature' } },
+      cassette: new Cassette({ path: path.join(directory, 'hmac.json'), mode: 'record' }),
+    });
+    await hmac.get('/users');
+
+    const fixture = await fs.readFile(file, 'utf8');
+    const { headers } = JSON.parse(fixture).interactions[0].request;
+    expect(headers['x-amz-security-token']).toBe('[REDACTED]');
+    expect(headers['authorization']).toBe('[REDACTED]');
+    expect(fixture).not.toContain('SESSION');
+    const hmacFixture = JSON.parse(await fs.readFile(path.join(directory, 'hmac.json'), 'utf8'));
+    expect(hmacFixture.interactions[0].request.headers['x-partner-signature']).toBe('[REDACTED]');
+  });
+
+  it('redacts API keys sent in custom headers', async () => {
+    const recorder = new UniversalAPIWrapper({
+      baseURL,
+      auth: { apiKey: 'SECRET-KEY', apiKeyName: 'X-Partner-Key' },
+      cassette: { path: file, mode: 'record' },
+    });
+
+    await recorder.get('/users');
+
+    const { request } = JSON.parse(await fs.readFile(file, 'utf8')).interactions[0];
+    expect(request.headers['x-partner-key']).toBe('[REDACTED]');
+    expect(JSON.stringify(request)).not.toContain('SECRET-KEY');
+  });
+
+  it('redacts credentials and configured parameters in recorded URLs', async () => {
+    const create = (mode: 'record' | 'replay', apiKey: string) =>
+      new UniversalAPIWrapper({
+        baseURL,
+        auth: { apiKey, apiKeyIn: 'query', apiKeyName: 'key' },
+        cassette: { path: file, mode, strict: true, redactQueryParams: ['sig'] },
+      });
+
+    await create('record', 'SECRET-KEY').get('/users', { page: 2, sig: 'SIGNED' });
+
+    // The response echoes the path, so only the request is checked
+    const { request } = JSON.parse(await fs.readFile(file, 'utf8')).interactions[0];
+    expect(request.url).toBe(`${baseURL}/users?page=2&sig=[REDACTED]&key=[REDACTED]`);
+    expect(JSON.stringify(request)).not.toMatch(/SECRET-KEY|SIGNED/);
+
+    requests = [];
+    const replayed = await create('replay', 'OTHER-KEY').get('/users', { page: 2, sig: 'x' });
+    expect(replayed.data.path).toContain('/users?page=2');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects unmatched requests in strict mode and sends them otherwise', async () => {
+    await wrapper('record').get('/users');
+
+    await expect(wrapper('replay', true).get('/orders')).rejects.toBeInstanceOf(
+      CassetteMismatchError
+    );
+    requests = [];
+    await expect(wrapper('replay').get('/orders')).resolves.toMatchObject({
+      data: { path: '/orders' },
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('replays recorded error responses as errors', async () => {
+    await expect(wrapper('record').get('/missing')).rejects.toBeInstanceOf(HttpError);
+
+    const error = await wrapper('replay', true)
+      .get('/missing')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 404, body: { error: 'not found' } });
+  });
+
+  it('stores binary bodies as base64 for REST and OpenAI SDK calls', async () => {
+    const config = { apiKey: 'sk-secret', baseURL, maxRetries: 0 };
+    // A recording cassette starts empty, so both clients share one instance
+    const cassette = new Cassette({ path: file, mode: 'record' });
+    const recorder = new OpenAIWrapper({ ...config, cassette });
+
+    const recorded = await recorder.createSpeech({ input: 'Hello', voice: 'alloy' });
+    const rest = await new UniversalAPIWrapper({ baseURL, cassette }).get(
+      '/audio/speech',
+      undefined,
+      { responseType: 'arraybuffer' }
+    );
+
+    const fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(fixture.interactions[0].request.headers['authorization']).toBe('[REDACTED]');
+    expect(fixture.interactions[0].request.body.data).toMatchObject({ model: 'tts-1' });
+    expect(fixture.interactions[0].response.body).toEqual({
+      encoding: 'base64',
+      data: audio.toString('base64'),
+    });
+    expect(Buffer.from(recorded)).toEqual(audio);
+    expect(Buffer.from(rest.data)).toEqual(audio);
+
+    requests = [];
+    const replayer = new OpenAIWrapper({
+      ...config,
+      cassette: { path: file, mode: 'replay', strict: true },
+    });
+    const replayed = await replayer.createSpeech({ input: 'Hello', voice: 'alloy' });
+
+    expect(Buffer.from(replayed)).toEqual(audio);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,164 @@
+import { jest } from '@jest/globals';
+import { CanceledError } from 'axios';
+import OpenAI from 'openai';
+import OpenAIWrapper from '../src/openai.js';
+import { RateLimitError } from '../src/errors.js';
+
+const chunk = (delta: any, extra: any = {}) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 1700000000,
+  model: 'gpt-4o-mini',
+  choices: [{ index: 0, delta, finish_reason: null }],
+  ...extra,
+});
+
+async function* fromChunks(chunks: any[], signal?: AbortSignal) {
+  for (const item of chunks) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    if (signal?.aborted) throw new Error('Request was aborted.');
+    yield item;
+  }
+}
+
+describe('OpenAIWrapper.chatStream', () => {
+  const create = jest.fn<(...args: any[]) => Promise<any>>();
+  const client = { chat: { completions: { create } } };
+  let wrapper: OpenAIWrapper;
+
+  const respondWith = (chunks: any[]) =>
+    create.mockImplementationOnce(async (_body, options) => fromChunks(chunks, options?.signal));
+
+  beforeEach(() => {
+    create.mockReset();
+    wrapper = new OpenAIWrapper({ apiKey: 'test-api-key', client });
+  });
+
+  it('yields text deltas and resolves the aggregated completion with usage', async () => {
+    respondWith([
+      chunk({ role: 'assistant', content: '' }),
+      chunk({ content: 'Hel' }),
+      chunk({ content: 'lo' }),
+      { ...chunk({}), choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+      {
+        ...chunk({}),
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+      },
+    ]);
+
+    const stream = wrapper.chatStream({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const deltas: string[] = [];
+    for await (const text of stream) deltas.push(text);
+    const completion = await stream.finalCompletion();
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(completion).toMatchObject({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      model: 'gpt-4o-mini',
+      choices: [
+        { index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Hello' } },
+      ],
+      usage: { total_tokens: 7 },
+    });
+    expect(wrapper.getUsage().total).toMatchObject({ calls: 1, totalTokens: 7 });
+    expect(create.mock.calls[0][0]).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it('assembles tool calls from streamed fragments', async () => {
+    const call = (fragment: any) => chunk({ tool_calls: [fragment] });
+    respondWith([
+      call({
+        index: 0,
+        id: 'call_a',
+        type: 'function',
+        function: { name: 'weather', arguments: '' },
+      }),
+      call({ index: 1, id: 'call_b', type: 'function', function: { name: 'time', arguments: '' } }),
+      call({ index: 0, function: { arguments: '{"city":' } }),
+      call({ index: 1, function: { arguments: '{}' } }),
+      call({ index: 0, function: { arguments: '"Paris"}' } }),
+      { ...chunk({}), choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+    ]);
+
+    const completion = await wrapper
+      .chatStream({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Weather?' }] })
+      .finalCompletion();
+
+    expect(completion.choices[0].finish_reason).toBe('tool_calls');
+    expect(completion.choices[0].message.content).toBeNull();
+    expect(completion.choices[0].message.tool_calls).toEqual([
+      {
+        id: 'call_a',
+        type: 'function',
+        function: { name: 'weather', arguments: '{"city":"Paris"}' },
+      },
+      { id: 'call_b', type: 'function', function: { name: 'time', arguments: '{}' } },
+    ]);
+  });
+
+  it('cancels the request when aborted', async () => {
+    respondWith([chunk({ content: 'a' }), chunk({ content: 'b' }), chunk({ content: 'c' })]);
+    const controller = new AbortController();
+    const stream = wrapper.chatStream(
+      { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] },
+      { signal: controller.signal }
+    );
+
+    const deltas: string[] = [];
+    const reading = (async () => {
+      for await (const text of stream) {
+        deltas.push(text);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toBeInstanceOf(CanceledError);
+    await expect(stream.finalCompletion()).rejects.toBeInstanceOf(CanceledError);
+    expect(deltas).toEqual(['a']);
+    expect((create.mock.calls[0][1] as any).signal.aborted).toBe(true);
+  });
+
+  it('aborts the request when the consumer stops reading', async () => {
+    respondWith([chunk({ content: 'a' }), chunk({ content: 'b' })]);
+    const stream = wrapper.chatStream({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    for await (const text of stream) {
+      expect(text).toBe('a');
+      break;
+    }
+
+    expect(stream.aborted).toBe(true);
+    await expect(stream.finalCompletion()).rejects.toBeInstanceOf(CanceledError);
+  });
+
+  it('converts SDK errors into wrapper errors', async () => {
+    create.mockRejectedValueOnce(
+      OpenAI.APIError.generate(429, { error: { message: 'Slow down' } }, 'Slow down', {})
+    );
+
+    const stream = wrapper.chatStream({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    await expect(stream.finalCompletion()).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('points streaming requests made through chat() at chatStream()', async () => {
+    await expect(
+      wrapper.chat({ model: 'gpt-4o-mini', messages: [], stream: true })
+    ).rejects.toThrow('chatStream()');
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { chunkText, estimateTokens, mapWithConcurrency } from '../src/chunking.js';
+
+// One token per word keeps the expectations readable
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+describe('chunkText', () => {
+  it('packs whole paragraphs into chunks', () => {
+    const text = 'one two three\n\nfour five\n\nsix seven eight nine';
+
+    expect(chunkText(text, { maxTokens: 5, countTokens: countWords })).toEqual([
+      'one two three\n\nfour five',
+      'six seven eight nine',
+    ]);
+  });
+
+  it('repeats trailing paragraphs as overlap', () => {
+    const text = 'a b\n\nc d\n\ne f\n\ng h';
+
+    expect(chunkText(text, { maxTokens: 4, overlap: 2, countTokens: countWords })).toEqual([
+      'a b\n\nc d',
+      'c d\n\ne f',
+      'e f\n\ng h',
+    ]);
+  });
+
+  it('carries the end of a paragraph too long to repeat whole', () => {
+    const text = 'One two. Three four five. Six seven.\n\neight nine ten eleven';
+
+    expect(chunkText(text, { maxTokens: 7, overlap: 2, countTokens: countWords })).toEqual([
+      'One two. Three four five. Six seven.',
+      'Six seven.\n\neight nine ten eleven',
+    ]);
+    expect(chunkText(text, { maxTokens: 7, overlap: 3, countTokens: countWords })[1]).toBe(
+      'Six seven.\n\neight nine ten eleven'
+    );
+    expect(
+      chunkText('a b c d e f\n\ng h', { maxTokens: 6, overlap: 3, countTokens: countWords })
+    ).toEqual(['a b c d e f', 'd e f\n\ng h']);
+  });
+
+  it('splits oversized paragraphs by sentence and then by word', () => {
+    const text = 'First sentence here. Second one is a lot longer than that.';
+
+    expect(chunkText(text, { maxTokens: 4, countTokens: countWords })).toEqual([
+      'First sentence here.',
+      'Second one is a',
+      'lot longer than that.',
+    ]);
+  });
+
+  it('returns short text as a single chunk and estimates tokens by length', () => {
+    expect(chunkText('short')).toEqual(['short']);
+    expect(estimateTokens('12345678')).toBe(2);
+    expect(() => chunkText('x', { maxTokens: 2, overlap: 2 })).toThrow('overlap');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('limits how many calls run at once and keeps the order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,142 @@
+import { jest } from '@jest/globals';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, {
+  CircuitBreaker,
+  CircuitOpenError,
+  CircuitStateChange,
+} from '../src/app.js';
+
+describe('CircuitBreaker', () => {
+  const serverError = { response: { status: 503 } };
+
+  it('opens after consecutive failures and fails fast', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+
+    breaker.beforeRequest('api');
+    breaker.onFailure('api', serverError);
+    breaker.beforeRequest('api');
+    breaker.onFailure('api', serverError);
+
+    expect(breaker.getState('api')).toBe('open');
+    expect(() => breaker.beforeRequest('api')).toThrow(CircuitOpenError);
+    expect(() => breaker.beforeRequest('other')).not.toThrow();
+  });
+
+  it('opens when the failure rate over the window is exceeded', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    breaker.onSuccess('api');
+    breaker.onFailure('api');
+    breaker.onSuccess('api');
+    expect(breaker.getState('api')).toBe('closed');
+    breaker.onFailure('api');
+
+    expect(breaker.getState('api')).toBe('open');
+  });
+
+  it('lets one probe through after the reset timeout and closes on success', async () => {
+    const events: string[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 10,
+      onStateChange: ({ from, to }) => events.push(`${from}->${to}`),
+    });
+    breaker.onFailure('api');
+    await new Promise((resolve) => setTimeout(resolve, 15));
+
+    breaker.beforeRequest('api');
+    expect(() => breaker.beforeRequest('api')).toThrow(CircuitOpenError);
+    breaker.onSuccess('api');
+
+    expect(breaker.getState('api')).toBe('closed');
+    expect(events).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('reopens when the probe fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10 });
+    breaker.onFailure('api');
+    await new Promise((resolve) => setTimeout(resolve, 15));
+
+    breaker.beforeRequest('api');
+    breaker.onFailure('api');
+
+    expect(breaker.getState('api')).toBe('open');
+  });
+
+  it('does not count client errors or cancellations as failures', () => {
+    const breaker = new CircuitBreaker();
+    expect(breaker.isFailure({ response: { status: 404 } })).toBe(false);
+    expect(breaker.isFailure({ code: 'ERR_CANCELED' })).toBe(false);
+    expect(breaker.isFailure({ code: 'ECONNRESET' })).toBe(true);
+    expect(breaker.isFailure(serverError)).toBe(true);
+  });
+});
+
+describe('UniversalAPIWrapper circuit breaker', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: number;
+  let status: number;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      requests++;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    status = 200;
+  });
+
+  it('stops sending requests to a failing host and reports state changes', async () => {
+    status = 500;
+    const onStateChange = jest.fn((_event: CircuitStateChange) => undefined);
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 5,
+      retryPolicy: { baseDelay: 1 },
+      circuitBreaker: { failureThreshold: 3, resetTimeout: 60000, onStateChange },
+    });
+
+    await expect(api.get('/flaky')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(requests).toBe(3);
+
+    await expect(api.get('/other')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(requests).toBe(3);
+
+    const host = new URL(baseURL).host;
+    expect(onStateChange).toHaveBeenCalledWith(
+      expect.objectContaining({ key: host, from: 'closed', to: 'open' })
+    );
+    expect(api.getCircuitStates()[host]).toMatchObject({ state: 'open', failures: 3 });
+  });
+
+  it('keeps separate breakers per route when configured', async () => {
+    status = 500;
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 0,
+      circuitBreaker: { failureThreshold: 1, scope: 'route' },
+    });
+
+    await expect(api.get('/broken')).rejects.toThrow('500');
+    await expect(api.get('/broken')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    status = 200;
+    await expect(api.get('/healthy')).resolves.toMatchObject({ status: 200 });
+  });
+});
@@ -0,0 +1,117 @@
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper from '../src/app.js';
+
+describe('Request deduplication', () => {
+  let server: Server;
+  let baseURL: string;
+  let received: IncomingMessage[];
+  let closed: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req);
+      res.on('close', () => {
+        if (!res.writableEnded) closed++;
+      });
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        setTimeout(() => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ url: req.url, body: body ? JSON.parse(body) : null }));
+        }, 50);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    closed = 0;
+  });
+
+  const createWrapper = (dedupeRequests = true) =>
+    new UniversalAPIWrapper({ baseURL, dedupeRequests, retryAttempts: 0 });
+
+  it('shares one network request between identical concurrent GETs', async () => {
+    const api = createWrapper();
+
+    const [first, second] = await Promise.all([api.get('/users/1'), api.get('/users/1')]);
+
+    expect(received).toHaveLength(1);
+    expect(first.data).toEqual(second.data);
+    first.data.url = 'changed';
+    expect(second.data.url).toBe('/users/1');
+  });
+
+  it('keeps requests with different parameters separate', async () => {
+    const api = createWrapper();
+
+    await Promise.all([api.get('/users', { page: 1 }), api.get('/users', { page: 2 })]);
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('is opt-in', async () => {
+    const api = createWrapper(false);
+
+    await Promise.all([api.get('/users/1'), api.get('/users/1')]);
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('does not abort the shared request when one caller cancels', async () => {
+    const api = createWrapper();
+    const controller = new AbortController();
+
+    const cancelled = api.get('/users/1', {}, { signal: controller.signal });
+    const kept = api.get('/users/1');
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect((await kept).data.url).toBe('/users/1');
+    expect(received).toHaveLength(1);
+  });
+
+  it('aborts the shared request once every caller has cancelled', async () => {
+    const api = createWrapper();
+    const controller = new AbortController();
+
+    const request = api.get('/users/1', {}, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toBe(1);
+  });
+
+  it('coalesces GraphQL queries but not mutations', async () => {
+    const api = createWrapper();
+    const query = 'query { me { id } }';
+
+    await Promise.all([api.queryGraphQL('/graphql', query), api.queryGraphQL('/graphql', query)]);
+    expect(received).toHaveLength(1);
+
+    const mutation = 'mutation { like(id: 1) }';
+    await Promise.all([
+      api.mutationGraphQL('/graphql', mutation),
+      api.mutationGraphQL('/graphql', mutation),
+    ]);
+    expect(received).toHaveLength(3);
+  });
+
+  it('never coalesces POST requests by default', async () => {
+    const api = createWrapper();
+
+    await Promise.all([api.post('/items', { a: 1 }), api.post('/items', { a: 1 })]);
+
+    expect(received).toHaveLength(2);
+  });
+});
@@ -0,0 +1,122 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, {
+  AuthError,
+  HttpError,
+  NetworkError,
+  RateLimitError,
+  RetryExhaustedError,
+  TimeoutError,
+  WrapperError,
+} from '../src/app.js';
+import { normalizeError } from '../src/errors.js';
+
+describe('Error normalization', () => {
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const status = Number(req.url?.split('/')[2]) || 200;
+      if (req.url?.startsWith('/slow')) {
+        setTimeout(() => res.end('{}'), 200);
+        return;
+      }
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+      res.end(JSON.stringify({ error: `status ${status}` }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createWrapper = (config = {}) =>
+    new UniversalAPIWrapper({ baseURL, retryAttempts: 0, ...config });
+
+  it('throws HttpError with status, headers and parsed body', async () => {
+    const error = await createWrapper()
+      .get('/status/404')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toBeInstanceOf(WrapperError);
+    expect(error).toMatchObject({
+      code: 'HTTP_ERROR',
+      status: 404,
+      body: { error: 'status 404' },
+      method: 'GET',
+      url: '/status/404',
+      message: 'Request failed with status code 404',
+    });
+    expect(error.headers['content-type']).toBe('application/json');
+    expect(error.cause).toMatchObject({ isAxiosError: true });
+  });
+
+  it('throws AuthError for 401 and 403', async () => {
+    const error = await createWrapper()
+      .get('/status/403')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.code).toBe('AUTH_ERROR');
+  });
+
+  it('throws RateLimitError with retryAfter', async () => {
+    const error = await createWrapper()
+      .get('/status/429')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 0 });
+  });
+
+  it('throws TimeoutError when the request times out', async () => {
+    const error = await createWrapper({ timeout: 20 })
+      .get('/slow')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  it('throws NetworkError when the host is unreachable', async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const error = await new UniversalAPIWrapper({ baseURL: `http://127.0.0.1:${port}` })
+      .post('/items')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ code: 'NETWORK_ERROR', errorCode: 'ECONNREFUSED' });
+  });
+
+  it('throws RetryExhaustedError with the attempt history', async () => {
+    const error = await createWrapper({ retryAttempts: 2, retryPolicy: { baseDelay: 1 } })
+      .get('/status/503')
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.code).toBe('RETRY_EXHAUSTED');
+    expect(error.attempts).toHaveLength(3);
+    expect(error.attempts.map((record: any) => record.attempt)).toEqual([1, 2, 3]);
+    expect(error.attempts[0].delay).toEqual(expect.any(Number));
+    expect(error.lastError).toBeInstanceOf(HttpError);
+    expect(error.cause).toBe(error.lastError);
+  });
+
+  it('leaves cancellations and unrelated errors untouched', () => {
+    const cancelled = { code: 'ERR_CANCELED', message: 'canceled' };
+    const bug = new TypeError('oops');
+
+    expect(normalizeError(cancelled)).toBe(cancelled);
+    expect(normalizeError(bug)).toBe(bug);
+  });
+});
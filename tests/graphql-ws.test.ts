@@ -0,0 +1,141 @@
+import { AddressInfo } from 'net';
+import { IncomingMessage } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import UniversalAPIWrapper, { AuthError, GraphQLError, TimeoutError } from '../src/app.js';
+import { GRAPHQL_TRANSPORT_WS_PROTOCOL, GraphQLWSClient } from '../src/graphql-ws.js';
+
+describe('GraphQL subscriptions', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let connections: number;
+  let inits: any[];
+  let upgrades: IncomingMessage[];
+  let received: any[];
+  let acknowledge: (socket: WebSocket, payload: any) => void;
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket, request) => {
+      connections++;
+      upgrades.push(request);
+      socket.on('message', (raw) => {
+        const message = JSON.parse(raw.toString());
+        received.push(message);
+        if (message.type === 'connection_init') {
+          inits.push(message.payload);
+          acknowledge(socket, message.payload);
+        } else if (message.type === 'ping') {
+          socket.send(JSON.stringify({ type: 'pong' }));
+        } else if (message.type === 'subscribe') {
+          const { id, payload } = message;
+          if (payload.query.includes('invalid')) {
+            socket.send(JSON.stringify({ id, type: 'error', payload: [{ message: 'Bad query' }] }));
+            return;
+          }
+          const count = payload.variables.count ?? 2;
+          for (let n = 1; n <= count; n++) {
+            socket.send(JSON.stringify({ id, type: 'next', payload: { data: { tick: n } } }));
+          }
+          if (payload.variables.complete) {
+            socket.send(JSON.stringify({ id, type: 'complete' }));
+          }
+        }
+      });
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    connections = 0;
+    inits = [];
+    upgrades = [];
+    received = [];
+    acknowledge = (socket) => socket.send(JSON.stringify({ type: 'connection_ack' }));
+  });
+
+  const waitFor = async (condition: () => boolean) => {
+    while (!condition()) await new Promise((resolve) => setTimeout(resolve, 5));
+  };
+
+  it('sends auth in connection_init and yields results until complete', async () => {
+    const api = new UniversalAPIWrapper({ auth: { bearerToken: 'secret' } });
+    const results: any[] = [];
+
+    for await (const result of api.subscribeGraphQL(url, 'subscription { tick }', {
+      count: 3,
+      complete: true,
+    })) {
+      results.push(result.data.tick);
+    }
+
+    expect(results).toEqual([1, 2, 3]);
+    expect(inits[0]).toEqual({ Authorization: 'Bearer secret' });
+    expect(upgrades[0].headers['authorization']).toBe('Bearer secret');
+    expect(upgrades[0].headers['sec-websocket-protocol']).toBe(GRAPHQL_TRANSPORT_WS_PROTOCOL);
+  });
+
+  it('shares one socket between subscriptions and completes on unsubscribe', async () => {
+    const api = new UniversalAPIWrapper();
+    const first = api.subscribeGraphQL(url, 'subscription { a }', { count: 1 });
+    const second = api.subscribeGraphQL(url, 'subscription { b }', { count: 1 });
+
+    await expect(first.next()).resolves.toMatchObject({ value: { data: { tick: 1 } } });
+    await expect(second.next()).resolves.toMatchObject({ value: { data: { tick: 1 } } });
+    expect(connections).toBe(1);
+
+    first.unsubscribe();
+    await expect(first.next()).resolves.toEqual({ value: undefined, done: true });
+    await second.return!();
+    await waitFor(() => received.filter((m) => m.type === 'complete').length === 2);
+
+    expect(received.filter((m) => m.type === 'complete').map((m) => m.id)).toEqual(['1', '2']);
+  });
+
+  it('rejects with GraphQLError when the server sends an error message', async () => {
+    const api = new UniversalAPIWrapper();
+    const subscription = api.subscribeGraphQL(url, 'subscription { invalid }');
+
+    await expect(subscription.next()).rejects.toBeInstanceOf(GraphQLError);
+  });
+
+  it('fails with TimeoutError when the connection is not acknowledged', async () => {
+    acknowledge = () => undefined;
+    const client = new GraphQLWSClient(url, { ackTimeout: 30 });
+
+    await expect(client.subscribe('subscription { tick }').next()).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+  });
+
+  it('fails with AuthError when the server rejects the connection', async () => {
+    acknowledge = (socket) => socket.close(4403, 'Forbidden');
+    const client = new GraphQLWSClient(url);
+
+    const error = await client
+      .subscribe('subscription { tick }')
+      .next()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(403);
+  });
+
+  it('sends connectionParams and pings when pingInterval is set', async () => {
+    const client = new GraphQLWSClient(url, {
+      pingInterval: 10,
+      connectionParams: async () => ({ client: 'test' }),
+    });
+    const subscription = client.subscribe('subscription { tick }', { count: 1 });
+    await subscription.next();
+
+    await waitFor(() => received.some((m) => m.type === 'ping'));
+    expect(inits[0]).toEqual({ client: 'test' });
+    subscription.unsubscribe();
+    expect(client.activeSubscriptions).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { GraphQLError } from '../src/app.js';
+import { PersistedQueryRegistry, checkGraphQLResult, hashQuery } from '../src/graphql.js';
+
+describe('checkGraphQLResult', () => {
+  const error = { message: 'Not found', path: ['user'], locations: [{ line: 1, column: 3 }] };
+
+  it('returns results without errors', () => {
+    expect(checkGraphQLResult({ data: { ok: true } })).toEqual({ data: { ok: true } });
+  });
+
+  it('throws GraphQLError with the first error details', () => {
+    let caught: any;
+    try {
+      checkGraphQLResult({ data: null, errors: [{ ...error, extensions: { code: 'NOT_FOUND' } }] });
+    } catch (e) {
+      caught = e;
+    }
+
+    expect(caught).toBeInstanceOf(GraphQLError);
+    expect(caught).toMatchObject({
+      message: 'Not found',
+      code: 'GRAPHQL_ERROR',
+      path: ['user'],
+      locations: [{ line: 1, column: 3 }],
+      extensions: { code: 'NOT_FOUND' },
+    });
+  });
+
+  it('accepts partial data only with the "all" error policy', () => {
+    const partial = { data: { user: null, posts: [] }, errors: [error] };
+
+    expect(() => checkGraphQLResult(partial)).toThrow(GraphQLError);
+    expect(checkGraphQLResult(partial, 'all')).toBe(partial);
+    expect(() => checkGraphQLResult({ data: null, errors: [error] }, 'all')).toThrow('Not found');
+  });
+});
+
+describe('UniversalAPIWrapper GraphQL', () => {
+  let server: Server;
+  let baseURL: string;
+  let bodies: any[];
+  let headers: http.IncomingHttpHeaders[];
+  let methods: string[];
+  let reply: (body: any) => { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body: any = raw ? JSON.parse(raw) : {};
+        for (const [key, value] of new URL(req.url!, baseURL).searchParams) {
+          body[key] = key === 'query' || key === 'operationName' ? value : JSON.parse(value);
+        }
+        bodies.push(body);
+        headers.push(req.headers);
+        methods.push(req.method!);
+        const { status, body: payload } = reply(body);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    bodies = [];
+    headers = [];
+    methods = [];
+    reply = () => ({ status: 200, body: { data: { user: { name: 'Ada' } } } });
+  });
+
+  it('sends operationName and per-call headers, and unwraps data', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, graphqlResultMode: 'data' });
+
+    const data = await api.queryGraphQL(
+      '/graphql',
+      'query GetUser { user { name } }',
+      { id: 1 },
+      { operationName: 'GetUser', headers: { 'X-Trace': 'abc' } }
+    );
+
+    expect(data).toEqual({ user: { name: 'Ada' } });
+    expect(bodies[0]).toEqual({
+      query: 'query GetUser { user { name } }',
+      variables: { id: 1 },
+      operationName: 'GetUser',
+    });
+    expect(headers[0]['x-trace']).toBe('abc');
+  });
+
+  it('rejects 200 responses that carry errors', async () => {
+    reply = () => ({
+      status: 200,
+      body: { data: { user: null }, errors: [{ message: 'Forbidden', path: ['user'] }] },
+    });
+    const api = new UniversalAPIWrapper({ baseURL });
+
+    const error = await api.queryGraphQL('/graphql', '{ user { name } }').catch((e) => e);
+
+    expect(error).toBeInstanceOf(GraphQLError);
+    expect(error.path).toEqual(['user']);
+    expect(error.data).toEqual({ user: null });
+
+    const partial = { errorPolicy: 'all' } as const;
+    const response = await api.queryGraphQL('/graphql', '{ user { name } }', {}, partial);
+    expect(response.data.errors).toHaveLength(1);
+  });
+
+  it('caches queries but not mutations', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, cacheEnabled: true });
+
+    await api.queryGraphQL('/graphql', '{ user { name } }');
+    const cached = await api.queryGraphQL('/graphql', '{ user { name } }');
+    await api.mutationGraphQL('/graphql', 'mutation { like }');
+    await api.mutationGraphQL('/graphql', 'mutation { like }');
+
+    expect(cached.fromCache).toBe(true);
+    expect(bodies).toHaveLength(3);
+  });
+
+  it('does not cache results with errors', async () => {
+    reply = () => ({ status: 200, body: { errors: [{ message: 'Boom' }] } });
+    const api = new UniversalAPIWrapper({ baseURL, cacheEnabled: true });
+
+    await expect(api.queryGraphQL('/graphql', '{ user { name } }')).rejects.toThrow('Boom');
+    await expect(api.queryGraphQL('/graphql', '{ user { name } }')).rejects.toThrow('Boom');
+
+    expect(bodies).toHaveLength(2);
+  });
+
+  it('does not cache results with errors for resolved credentials', async () => {
+    reply = () => ({ status: 200, body: { errors: [{ message: 'Boom' }] } });
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      cacheEnabled: true,
+      auth: { credentialResolver: () => ({ apiKey: 'tenant-key' }) },
+    });
+
+    await expect(api.queryGraphQL('/graphql', '{ user { name } }')).rejects.toThrow('Boom');
+    await expect(api.queryGraphQL('/graphql', '{ user { name } }')).rejects.toThrow('Boom');
+
+    expect(bodies).toHaveLength(2);
+  });
+
+  it('retries queries but not mutations unless opted in', async () => {
+    reply = () => ({ status: 503, body: {} });
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      retryPolicy: { baseDelay: 1 },
+    });
+
+    await expect(api.queryGraphQL('/graphql', '{ user { name } }')).rejects.toThrow();
+    expect(bodies).toHaveLength(2);
+
+    bodies = [];
+    await expect(api.mutationGraphQL('/graphql', 'mutation { like }')).rejects.toThrow();
+    expect(bodies).toHaveLength(1);
+
+    bodies = [];
+    await expect(
+      api.mutationGraphQL('/graphql', 'mutation { like }', {}, { retry: true })
+    ).rejects.toThrow();
+    expect(bodies).toHaveLength(2);
+  });
+
+  describe('automatic persisted queries', () => {
+    const query = '{ user { name } }';
+    let registered: Set<string>;
+
+    // Behaves like an Apollo server with APQ enabled
+    const apqServer = (body: any) => {
+      const hash = body.extensions?.persistedQuery?.sha256Hash;
+      if (hash && !body.query && !registered.has(hash)) {
+        return {
+          status: 200,
+          body: {
+            errors: [
+              {
+                message: 'PersistedQueryNotFound',
+                extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+              },
+            ],
+          },
+        };
+      }
+      if (hash && body.query) registered.add(hash);
+      return { status: 200, body: { data: { user: { name: 'Ada' } } } };
+    };
+
+    beforeEach(() => {
+      registered = new Set();
+      reply = apqServer;
+    });
+
+    it('registers unknown queries and sends only the hash afterwards', async () => {
+      const api = new UniversalAPIWrapper({ baseURL, graphqlPersistedQueries: true });
+
+      await expect(api.queryGraphQL('/graphql', query)).resolves.toMatchObject({ status: 200 });
+      await api.queryGraphQL('/graphql', query);
+
+      const persistedQuery = { version: 1, sha256Hash: hashQuery(query) };
+      expect(bodies).toEqual([
+        { query, variables: {}, extensions: { persistedQuery } },
+        { variables: {}, extensions: { persistedQuery } },
+      ]);
+    });
+
+    it('registers the query again when the server has forgotten it', async () => {
+      const api = new UniversalAPIWrapper({ baseURL, graphqlPersistedQueries: true });
+
+      await api.queryGraphQL('/graphql', query);
+      registered.clear();
+      await api.queryGraphQL('/graphql', query);
+      await api.queryGraphQL('/graphql', query);
+
+      expect(bodies.map((body) => 'query' in body)).toEqual([true, false, true, false]);
+    });
+
+    it('sends hashed queries as GET and registers them with POST', async () => {
+      const api = new UniversalAPIWrapper({
+        baseURL,
+        graphqlPersistedQueries: true,
+        graphqlUseGET: true,
+        cacheEnabled: true,
+      });
+
+      await api.queryGraphQL('/graphql', query);
+      await api.queryGraphQL('/graphql', query);
+      const cached = await api.queryGraphQL('/graphql', query);
+      await api.mutationGraphQL('/graphql', 'mutation { like }', {}, { persistedQuery: false });
+
+      expect(cached.fromCache).toBe(true);
+      expect(methods).toEqual(['POST', 'GET', 'POST']);
+    });
+
+    it('falls back to full queries when the server does not support APQ', async () => {
+      reply = (body) =>
+        !body.extensions
+          ? { status: 200, body: { data: { ok: true } } }
+          : { status: 400, body: { errors: [{ message: 'PersistedQueryNotSupported' }] } };
+      const api = new UniversalAPIWrapper({ baseURL, graphqlPersistedQueries: true });
+
+      await api.queryGraphQL('/graphql', query);
+      await api.queryGraphQL('/graphql', query);
+
+      expect(bodies).toHaveLength(3);
+      expect(bodies[1]).toEqual({ query, variables: {} });
+      expect(bodies[2]).toEqual({ query, variables: {} });
+    });
+  });
+});
+
+describe('PersistedQueryRegistry', () => {
+  it('tracks known hashes per endpoint', () => {
+    const registry = new PersistedQueryRegistry();
+    registry.markKnown('/graphql', 'abc');
+
+    expect(registry.isKnown('/graphql', 'abc')).toBe(true);
+    expect(registry.isKnown('/other', 'abc')).toBe(false);
+
+    registry.forget('/graphql', 'abc');
+    expect(registry.isKnown('/graphql', 'abc')).toBe(false);
+
+    registry.markKnown('/graphql', 'abc');
+    registry.markUnsupported('/graphql');
+    expect(registry.isSupported('/graphql')).toBe(false);
+    expect(registry.isKnown('/graphql', 'abc')).toBe(false);
+  });
+});
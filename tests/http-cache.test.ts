@@ -0,0 +1,181 @@
+import http, { IncomingMessage, OutgoingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { MemoryCacheStore } from '../src/app.js';
+import { createHttpCacheEntry, parseCacheControl } from '../src/http-cache.js';
+
+describe('HTTP cache mode', () => {
+  let server: Server;
+  let baseURL: string;
+  let received: IncomingMessage[];
+  let responseHeaders: OutgoingHttpHeaders;
+  let version: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req);
+      const etag = `"v${version}"`;
+      if (responseHeaders['ETag'] && req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { ETag: etag, 'Cache-Control': responseHeaders['Cache-Control'] });
+        res.end();
+        return;
+      }
+      const headers = { ...responseHeaders };
+      if (headers['ETag']) headers['ETag'] = etag;
+      res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify({ version }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseHeaders = {};
+    version = 1;
+  });
+
+  const createWrapper = (config = {}) =>
+    new UniversalAPIWrapper({ baseURL, cacheEnabled: true, cacheMode: 'http', ...config });
+
+  // Resolves after the store's next write, once the promise chain that made it (e.g. a background
+  // revalidation) has settled
+  const watchWrites = (store: MemoryCacheStore) => {
+    let written = () => {};
+    const set = store.set.bind(store);
+    store.set = (key, value, ttl) => {
+      set(key, value, ttl);
+      setImmediate(written);
+    };
+    return () => new Promise<void>((resolve) => (written = resolve));
+  };
+
+  it('serves fresh responses from the cache according to max-age', async () => {
+    responseHeaders = { 'Cache-Control': 'max-age=60' };
+    const api = createWrapper();
+
+    await api.get('/doc');
+    const cached = await api.get('/doc');
+
+    expect(cached).toMatchObject({ data: { version: 1 }, fromCache: true, revalidated: false });
+    expect(cached.headers['cache-control']).toBe('max-age=60');
+    expect(received).toHaveLength(1);
+  });
+
+  it('does not store no-store responses', async () => {
+    responseHeaders = { 'Cache-Control': 'no-store' };
+    const api = createWrapper();
+
+    await api.get('/doc');
+    const second = await api.get('/doc');
+
+    expect(second.fromCache).toBe(false);
+    expect(received).toHaveLength(2);
+  });
+
+  it('skips private responses only when the cache is shared', async () => {
+    responseHeaders = { 'Cache-Control': 'private, max-age=60' };
+
+    const privateCache = createWrapper();
+    await privateCache.get('/doc');
+    await privateCache.get('/doc');
+    expect(received).toHaveLength(1);
+
+    const sharedCache = createWrapper({ sharedCache: true });
+    await sharedCache.get('/doc');
+    await sharedCache.get('/doc');
+    expect(received).toHaveLength(3);
+  });
+
+  it('revalidates stale entries with If-None-Match and serves the body on 304', async () => {
+    responseHeaders = { 'Cache-Control': 'no-cache', ETag: 'set' };
+    const api = createWrapper();
+
+    await api.get('/doc');
+    const revalidated = await api.get('/doc');
+
+    expect(received[1].headers['if-none-match']).toBe('"v1"');
+    expect(revalidated).toMatchObject({
+      status: 200,
+      data: { version: 1 },
+      fromCache: true,
+      revalidated: true,
+    });
+
+    version = 2;
+    const changed = await api.get('/doc');
+    expect(changed).toMatchObject({ data: { version: 2 }, fromCache: false, revalidated: false });
+  });
+
+  it('sends If-Modified-Since for entries with Last-Modified', async () => {
+    const lastModified = 'Wed, 01 Jan 2025 00:00:00 GMT';
+    responseHeaders = { 'Cache-Control': 'max-age=0', 'Last-Modified': lastModified };
+    const api = createWrapper();
+
+    await api.get('/doc');
+    await api.get('/doc');
+
+    expect(received[1].headers['if-modified-since']).toBe(lastModified);
+  });
+
+  it('serves stale content while revalidating in the background', async () => {
+    responseHeaders = { 'Cache-Control': 'max-age=0, stale-while-revalidate=60' };
+    const cacheStore = new MemoryCacheStore();
+    const nextWrite = watchWrites(cacheStore);
+    const api = createWrapper({ cacheStore });
+
+    await api.get('/doc');
+    version = 2;
+    let revalidated = nextWrite();
+    const stale = await api.get('/doc');
+    expect(stale).toMatchObject({ data: { version: 1 }, fromCache: true });
+
+    await revalidated;
+    expect(received).toHaveLength(2);
+    revalidated = nextWrite();
+    const refreshed = await api.get('/doc');
+    expect(refreshed.data).toEqual({ version: 2 });
+    // The last read started another revalidation; let it finish before the server shuts down
+    await revalidated;
+    expect(received).toHaveLength(3);
+  });
+
+  describe('helpers', () => {
+    it('parses Cache-Control directives', () => {
+      expect(parseCacheControl('public, max-age=30, stale-while-revalidate=5, private')).toEqual({
+        maxAge: 30,
+        staleWhileRevalidate: 5,
+        noStore: false,
+        noCache: false,
+        private: true,
+      });
+    });
+
+    it('does not store error statuses', () => {
+      const entry = createHttpCacheEntry(
+        { status: 500, statusText: 'Error', headers: {}, data: {} },
+        1000,
+        false
+      );
+      expect(entry).toBeUndefined();
+    });
+
+    it('uses Age to shorten max-age freshness', () => {
+      const entry = createHttpCacheEntry(
+        {
+          status: 200,
+          statusText: 'OK',
+          headers: { 'cache-control': 'max-age=60', age: '20' },
+          data: {},
+        },
+        1000,
+        false,
+        0
+      );
+      expect(entry?.freshUntil).toBe(40000);
+    });
+  });
+});
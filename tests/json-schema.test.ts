@@ -0,0 +1,39 @@
+import { validateSchema } from '../src/json-schema.js';
+
+describe('validateSchema', () => {
+  const schema = {
+    type: 'object' as const,
+    properties: {
+      city: { type: 'string' as const, minLength: 2 },
+      days: { type: 'integer' as const, minimum: 1, maximum: 7 },
+      unit: { enum: ['c', 'f'] },
+      tags: { type: 'array' as const, items: { type: 'string' as const }, maxItems: 2 },
+    },
+    required: ['city'],
+    additionalProperties: false,
+  };
+
+  it('accepts valid values', () => {
+    expect(validateSchema({ city: 'Paris', days: 3, unit: 'c', tags: ['a'] }, schema)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validateSchema({ days: 1.5, unit: 'k', tags: ['a', 2], extra: true }, schema)).toEqual([
+      '$.city is required',
+      '$.days must be integer, got number',
+      '$.unit must be one of "c", "f"',
+      '$.tags[1] must be string, got integer',
+      '$.extra is not allowed',
+    ]);
+  });
+
+  it('handles type unions, nullable and combinators', () => {
+    expect(validateSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateSchema(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validateSchema(5, { type: 'number', exclusiveMaximum: 5 })).toEqual(['$ must be < 5']);
+    expect(validateSchema('x', { anyOf: [{ type: 'number' }, { const: 'x' }] })).toEqual([]);
+    expect(validateSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([
+      '$ must match exactly one of the allowed schemas',
+    ]);
+  });
+});
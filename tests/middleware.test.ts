@@ -0,0 +1,188 @@
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, {
+  HttpError,
+  LogEntry,
+  Middleware,
+  bodyTransformMiddleware,
+  createResponse,
+  headerMiddleware,
+  loggingMiddleware,
+} from '../src/app.js';
+
+describe('Middleware', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: IncomingMessage[];
+  let failures: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        if (req.url === '/missing') {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end('{"error":"not found"}');
+          return;
+        }
+        if (req.url === '/flaky' && failures-- > 0) {
+          res.writeHead(503);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ path: req.url, body: body ? JSON.parse(body) : null }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failures = 0;
+  });
+
+  const retryPolicy = { baseDelay: 1, maxDelay: 1, jitter: 'none' as const };
+
+  it('runs request middleware around the retry loop and attempt middleware on every attempt', async () => {
+    const calls: string[] = [];
+    const api = new UniversalAPIWrapper({ baseURL, retryPolicy, auth: { bearerToken: 'token' } })
+      .use(async (ctx, next) => {
+        calls.push(`request in ${ctx.method}`);
+        const response = await next();
+        calls.push(`request out ${response.status}`);
+        return response;
+      })
+      .use(
+        async (ctx, next) => {
+          calls.push(`attempt ${ctx.attempt} ${(ctx.options.headers as any).get('Authorization')}`);
+          return next();
+        },
+        { stage: 'attempt' }
+      );
+    failures = 1;
+
+    await api.get('/flaky');
+
+    expect(calls).toEqual([
+      'request in GET',
+      'attempt 0 Bearer token',
+      'attempt 1 Bearer token',
+      'request out 200',
+    ]);
+  });
+
+  it('lets middleware answer a call without sending it', async () => {
+    const api = new UniversalAPIWrapper({ baseURL }).use(async (ctx, next) =>
+      ctx.endpoint === '/stub' ? createResponse(ctx, { stubbed: true }, { status: 202 }) : next()
+    );
+
+    const response = await api.get('/stub');
+
+    expect(response.status).toBe(202);
+    expect(response.data).toEqual({ stubbed: true });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('recovers from normalized errors at the request stage', async () => {
+    const fallback: Middleware = async (ctx, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) return createResponse(ctx, null);
+        throw error;
+      }
+    };
+    const api = new UniversalAPIWrapper({ baseURL, retryAttempts: 0 }).use(fallback);
+
+    const response = await api.get('/missing');
+
+    expect(response.data).toBeNull();
+  });
+
+  it('injects headers without replacing the ones passed to the call', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, auth: { apiKey: 'key' } })
+      .use(headerMiddleware({ 'X-Client': 'sdk', 'X-Trace': 'default' }))
+      .use(headerMiddleware(() => ({ 'x-api-key': 'ignored' }), { override: true }));
+
+    await api.get('/users', {}, { headers: { 'x-trace': 'abc' } });
+
+    expect(requests[0].headers['x-client']).toBe('sdk');
+    expect(requests[0].headers['x-trace']).toBe('abc');
+    // Auth is added after request middleware, so it wins
+    expect(requests[0].headers['x-api-key']).toBe('key');
+  });
+
+  it('keeps headers set by attempt middleware after auth', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, auth: { bearerToken: 'token' } }).use(
+      async (ctx, next) => {
+        (ctx.options.headers as any).set('Authorization', 'Signed abc');
+        return next();
+      },
+      { stage: 'attempt' }
+    );
+
+    await api.get('/users');
+
+    expect(requests[0].headers.authorization).toBe('Signed abc');
+  });
+
+  it('transforms bodies, including responses served from the cache', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, cacheEnabled: true }).use(
+      bodyTransformMiddleware({
+        request: (data) => ({ ...data, sentAt: 'now' }),
+        response: (data) => ({ ...data, seen: true }),
+      })
+    );
+
+    const created = await api.post('/users', { name: 'Ada' });
+    await api.get('/users');
+    const cached = await api.get('/users');
+
+    expect(created.data.body).toEqual({ name: 'Ada', sentAt: 'now' });
+    expect(cached.fromCache).toBe(true);
+    expect(cached.data).toEqual({ path: '/users', body: null, seen: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('logs each call and each attempt', async () => {
+    const entries: LogEntry[] = [];
+    const log = (entry: LogEntry) => entries.push(entry);
+    const api = new UniversalAPIWrapper({ baseURL, retryPolicy })
+      .use(loggingMiddleware({ log }))
+      .use(loggingMiddleware({ log }), { stage: 'attempt' });
+    failures = 1;
+
+    await api.get('/flaky');
+
+    expect(
+      entries.map(({ stage, attempt, status, error }) => ({
+        stage,
+        attempt,
+        status,
+        failed: !!error,
+      }))
+    ).toEqual([
+      { stage: 'attempt', attempt: 0, status: 503, failed: true },
+      { stage: 'attempt', attempt: 1, status: 200, failed: false },
+      { stage: 'request', attempt: undefined, status: 200, failed: false },
+    ]);
+  });
+
+  it('rejects middleware that calls next twice', async () => {
+    const api = new UniversalAPIWrapper({ baseURL }).use(async (_ctx, next) => {
+      await next();
+      return next();
+    });
+
+    await expect(api.get('/users')).rejects.toThrow('next() called more than once');
+  });
+});
@@ -0,0 +1,228 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, {
+  AuthError,
+  HttpError,
+  OAuth2Token,
+  RateLimitError,
+} from '../src/app.js';
+
+describe('OAuth2 token handling', () => {
+  let server: Server;
+  let baseURL: string;
+  let issued: number;
+  let tokenRequests: Record<string, string>[];
+  let validTokens: Set<string>;
+  let expiresIn: number;
+  let tokenStatus: number;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.post('/oauth/token', (req, res) => {
+      tokenRequests.push(req.body);
+      if (tokenStatus !== 200) {
+        res.status(tokenStatus).json({ error: 'unavailable' });
+        return;
+      }
+      if (req.body.grant_type === 'refresh_token' && req.body.refresh_token !== 'refresh-1') {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+      issued++;
+      const accessToken = `access-${issued}`;
+      validTokens.add(accessToken);
+      res.json({
+        access_token: accessToken,
+        refresh_token: 'refresh-1',
+        token_type: 'Bearer',
+        expires_in: expiresIn,
+      });
+    });
+
+    app.get('/me', (req, res) => {
+      const token = (req.headers.authorization || '').replace('Bearer ', '');
+      if (!validTokens.has(token)) {
+        res.status(401).json({ error: 'unauthorized' });
+        return;
+      }
+      res.json({ token });
+    });
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, () => resolve());
+    });
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    issued = 0;
+    tokenRequests = [];
+    validTokens = new Set();
+    expiresIn = 3600;
+    tokenStatus = 200;
+  });
+
+  it('fetches a token with the client credentials grant before the first request', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: {
+        oauth2: {
+          tokenUrl: `${baseURL}/oauth/token`,
+          grantType: 'client_credentials',
+          clientId: 'client',
+          clientSecret: 'secret',
+          scope: 'read',
+        },
+      },
+    });
+
+    const response = await api.get('/me');
+
+    expect(response.data).toEqual({ token: 'access-1' });
+    expect(tokenRequests).toEqual([
+      {
+        grant_type: 'client_credentials',
+        scope: 'read',
+        client_id: 'client',
+        client_secret: 'secret',
+      },
+    ]);
+  });
+
+  it('uses the password grant and then refreshes with the issued refresh token', async () => {
+    expiresIn = 0;
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: {
+        oauth2: {
+          tokenUrl: `${baseURL}/oauth/token`,
+          grantType: 'password',
+          username: 'user',
+          password: 'pass',
+        },
+      },
+    });
+
+    await api.get('/me');
+    await api.get('/me');
+
+    expect(tokenRequests.map((body) => body.grant_type)).toEqual(['password', 'refresh_token']);
+  });
+
+  it('falls back to the configured grant when the refresh token is rejected', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: {
+        refreshToken: 'revoked',
+        oauth2: {
+          tokenUrl: `${baseURL}/oauth/token`,
+          grantType: 'password',
+          username: 'user',
+          password: 'pass',
+        },
+      },
+    });
+
+    const response = await api.get('/me');
+
+    expect(response.data).toEqual({ token: 'access-1' });
+    expect(tokenRequests.map((body) => body.grant_type)).toEqual(['refresh_token', 'password']);
+  });
+
+  it('only reports rejected grants from the token endpoint as AuthError', async () => {
+    const create = () =>
+      new UniversalAPIWrapper({
+        baseURL,
+        retryAttempts: 0,
+        auth: {
+          oauth2: { tokenUrl: `${baseURL}/oauth/token`, grantType: 'client_credentials' },
+        },
+      });
+
+    tokenStatus = 503;
+    const unavailable = await create()
+      .get('/me')
+      .catch((e) => e);
+    tokenStatus = 429;
+    const limited = await create()
+      .get('/me')
+      .catch((e) => e);
+    tokenStatus = 401;
+    const rejected = await create()
+      .get('/me')
+      .catch((e) => e);
+
+    expect(unavailable).toBeInstanceOf(HttpError);
+    expect(unavailable).not.toBeInstanceOf(AuthError);
+    expect(unavailable.status).toBe(503);
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect(rejected).toBeInstanceOf(AuthError);
+  });
+
+  it('refreshes once when concurrent requests are rejected with 401', async () => {
+    const onTokenRefreshed = jest.fn((_token: OAuth2Token) => undefined);
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: {
+        bearerToken: 'stale-token',
+        refreshToken: 'refresh-1',
+        oauth2: { tokenUrl: `${baseURL}/oauth/token` },
+        onTokenRefreshed,
+      },
+    });
+
+    const responses = await Promise.all([api.get('/me'), api.get('/me'), api.get('/me')]);
+
+    expect(responses.map((response) => response.data.token)).toEqual([
+      'access-1',
+      'access-1',
+      'access-1',
+    ]);
+    expect(tokenRequests).toHaveLength(1);
+    expect(tokenRequests[0]).toMatchObject({ grant_type: 'refresh_token' });
+    expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+    expect(onTokenRefreshed).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: 'access-1', refreshToken: 'refresh-1' })
+    );
+  });
+
+  it('delegates to a user supplied tokenProvider', async () => {
+    validTokens.add('provided-token');
+    const tokenProvider = jest.fn(async () => 'provided-token');
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: { tokenProvider },
+    });
+
+    const response = await api.get('/me');
+
+    expect(response.data).toEqual({ token: 'provided-token' });
+    expect(tokenProvider).toHaveBeenCalledTimes(1);
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it('does not retry more than once when the refreshed token is also rejected', async () => {
+    const tokenProvider = jest.fn(async () => 'never-valid');
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts: 1,
+      auth: { tokenProvider },
+    });
+
+    await expect(api.get('/me')).rejects.toThrow('Request failed with status code 401');
+    expect(tokenProvider).toHaveBeenCalledTimes(2);
+  });
+});
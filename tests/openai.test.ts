@@ -1,5 +1,7 @@
 import { jest } from '@jest/globals';
-import OpenAIWrapper from '../src/openai';
+import OpenAI from 'openai';
+import OpenAIWrapper from '../src/openai.js';
+import { BudgetExceededError, RateLimitError, StructuredOutputError } from '../src/errors.js';
 
 // Mock OpenAI client
 const mockOpenAIClient = {
@@ -60,6 +62,23 @@ describe('OpenAIWrapper', () => {
         })
       ).rejects.toThrow('API Error');
     });
+
+    it('should convert OpenAI API errors into wrapper errors', async () => {
+      const error = OpenAI.APIError.generate(
+        429,
+        { error: { message: 'Rate limit reached' } },
+        'Rate limit reached',
+        { 'retry-after': '2' }
+      );
+      (mockOpenAIClient.chat.completions.create as any).mockRejectedValueOnce(error);
+
+      const caught = await wrapper
+        .chat({ messages: [{ role: 'user', content: 'Hello' }], model: 'gpt-3.5-turbo' })
+        .catch((e) => e);
+
+      expect(caught).toBeInstanceOf(RateLimitError);
+      expect(caught).toMatchObject({ status: 429, retryAfter: 2000, cause: error });
+    });
   });
 
   describe('Image Generation', () => {
@@ -135,4 +154,249 @@ describe('OpenAIWrapper', () => {
       await expect(wrapper.analyze('Test text', 'Analyze this text')).rejects.toThrow('API Error');
     });
   });
+
+  describe('Structured Output', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { name: { type: 'string' as const }, age: { type: 'integer' as const } },
+      required: ['name', 'age'],
+    };
+    const reply = (content: string) => ({ choices: [{ message: { content, refusal: null } }] });
+
+    it('should extract JSON that matches the schema', async () => {
+      (mockOpenAIClient.chat.completions.create as any).mockResolvedValueOnce(
+        reply('{"name":"Ada","age":36}')
+      );
+
+      const person = await wrapper.extract<{ name: string; age: number }>('Ada is 36.', schema);
+
+      expect(person).toEqual({ name: 'Ada', age: 36 });
+      expect(mockOpenAIClient.chat.completions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'extraction', schema, strict: false },
+          },
+        })
+      );
+    });
+
+    it('should re-ask the model with the validation errors', async () => {
+      (mockOpenAIClient.chat.completions.create as any)
+        .mockResolvedValueOnce(reply('{"name":"Ada","age":"36"}'))
+        .mockResolvedValueOnce(reply('{"name":"Ada","age":36}'));
+
+      const person = await wrapper.extract('Ada is 36.', schema);
+
+      expect(person).toEqual({ name: 'Ada', age: 36 });
+      const retry = (mockOpenAIClient.chat.completions.create as any).mock.calls[1][0];
+      expect(retry.messages.slice(2)).toEqual([
+        { role: 'assistant', content: '{"name":"Ada","age":"36"}' },
+        {
+          role: 'user',
+          content: expect.stringContaining('$.age must be integer, got string'),
+        },
+      ]);
+    });
+
+    it('should throw StructuredOutputError when retries run out', async () => {
+      (mockOpenAIClient.chat.completions.create as any)
+        .mockResolvedValueOnce(reply('not json'))
+        .mockResolvedValueOnce(reply('{"name":"Ada"}'));
+
+      const error = await wrapper.extract('Ada', schema, { maxRetries: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error).toMatchObject({
+        code: 'STRUCTURED_OUTPUT_INVALID',
+        errors: ['$.age is required'],
+        output: '{"name":"Ada"}',
+        attempts: 2,
+      });
+    });
+
+    it('should return structured summaries and translations', async () => {
+      (mockOpenAIClient.chat.completions.create as any)
+        .mockResolvedValueOnce(reply('{"summary":"Short","keyPoints":["a","b"]}'))
+        .mockResolvedValueOnce(
+          reply('{"translation":"Salam","sourceLanguage":"English","targetLanguage":"Persian"}')
+        );
+
+      const summary = await wrapper.summarize('Long text', { maxLength: 50, structured: true });
+      const translation = await wrapper.translate('Hello', 'Persian', { structured: true });
+
+      expect(summary).toEqual({ summary: 'Short', keyPoints: ['a', 'b'] });
+      expect(translation.sourceLanguage).toBe('English');
+      expect(translation.translation).toBe('Salam');
+    });
+  });
+
+  describe('Long Documents', () => {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const create = mockOpenAIClient.chat.completions.create as any;
+    const contentOf = (call: any[]) => call[0].messages[1].content;
+
+    beforeEach(() => {
+      create.mockImplementation(async ({ messages }: any) => ({
+        choices: [{ message: { content: `S(${messages[1].content.split(/\s+/)[0]})` } }],
+      }));
+    });
+
+    it('should summarize chunks in parallel and reduce until the summaries fit', async () => {
+      const onProgress = jest.fn();
+
+      const summary = await wrapper.summarize('a1 a2\n\nb1 b2\n\nc1 c2', {
+        chunkSize: 2,
+        chunkOverlap: 0,
+        countTokens: countWords,
+        onProgress,
+      });
+
+      expect(create.mock.calls.map(contentOf)).toEqual([
+        'a1 a2',
+        'b1 b2',
+        'c1 c2',
+        'S(a1)\n\nS(b1)',
+        'S(c1)',
+        'S(S(a1))\n\nS(S(c1))',
+      ]);
+      expect(summary).toBe('S(S(S(a1)))');
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { stage: 'map', completed: 1, total: 3 },
+        { stage: 'map', completed: 2, total: 3 },
+        { stage: 'map', completed: 3, total: 3 },
+        { stage: 'reduce', completed: 1, total: 2 },
+        { stage: 'reduce', completed: 2, total: 2 },
+      ]);
+    });
+
+    it('should reject summaries that stop getting shorter before they fit', async () => {
+      create.mockImplementation(async ({ messages }: any) => ({
+        choices: [{ message: { content: messages[1].content } }],
+      }));
+
+      await expect(
+        wrapper.summarize('a1 a2\n\nb1 b2\n\nc1 c2', {
+          chunkSize: 2,
+          chunkOverlap: 0,
+          countTokens: countWords,
+        })
+      ).rejects.toThrow('Chunk summaries stopped getting shorter at 6 tokens');
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should refine one summary chunk by chunk', async () => {
+      const summary = await wrapper.summarize('a1 a2\n\nb1 b2', {
+        chunkSize: 2,
+        chunkOverlap: 0,
+        countTokens: countWords,
+        strategy: 'refine',
+        maxLength: 10,
+      });
+
+      expect(create.mock.calls.map(contentOf)).toEqual([
+        'a1 a2',
+        'Existing summary:\nS(a1)\n\nNew text:\nb1 b2',
+        'S(Existing)',
+      ]);
+      expect(create.mock.calls[2][0].messages[0].content).toContain('no more than 10 words');
+      expect(summary).toBe('S(S(Existing))');
+    });
+
+    it('should translate long documents chunk by chunk and keep paragraphs', async () => {
+      const translation = await wrapper.translate('a1 a2\n\nb1 b2\n\nc1', 'Persian', {
+        chunkSize: 3,
+        countTokens: countWords,
+        concurrency: 1,
+      });
+
+      expect(create.mock.calls.map(contentOf)).toEqual(['a1 a2', 'b1 b2\n\nc1']);
+      expect(translation).toBe('S(a1)\n\nS(b1)');
+    });
+  });
+
+  describe('Models', () => {
+    const create = mockOpenAIClient.chat.completions.create as any;
+
+    beforeEach(() => {
+      create.mockResolvedValue({ choices: [{ message: { content: 'ok' } }] });
+      wrapper = new OpenAIWrapper({
+        apiKey: 'test-api-key',
+        client: mockOpenAIClient,
+        models: { chat: 'fast', image: 'dall-e-3' },
+        modelAliases: { fast: 'gpt-4o-mini', smart: 'gpt-4o' },
+      });
+    });
+
+    it('should use the configured default model and resolve aliases', async () => {
+      await wrapper.analyze('Text', 'Analyze');
+      await wrapper.chat({ model: 'smart', messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(create.mock.calls[0][0].model).toBe('gpt-4o-mini');
+      expect(create.mock.calls[1][0].model).toBe('gpt-4o');
+      expect(wrapper.resolveModel(undefined, 'image')).toBe('dall-e-3');
+      expect(wrapper.resolveModel('local-llama')).toBe('local-llama');
+    });
+
+    it('should pass per-call options from the helpers', async () => {
+      await wrapper.translate('Hello', 'Persian', {
+        model: 'smart',
+        temperature: 0.2,
+        maxTokens: 50,
+        systemPrompt: 'You are a careful translator.',
+      });
+
+      expect(create).toHaveBeenCalledWith({
+        model: 'gpt-4o',
+        temperature: 0.2,
+        max_tokens: 50,
+        messages: [
+          { role: 'system', content: 'You are a careful translator.' },
+          { role: 'system', content: 'Translate the following text to Persian:' },
+          { role: 'user', content: 'Hello' },
+        ],
+      });
+    });
+  });
+
+  describe('Usage', () => {
+    const create = mockOpenAIClient.chat.completions.create as any;
+    const completion = {
+      model: 'gpt-4o-mini',
+      choices: [{ message: { content: 'ok' } }],
+      usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+    };
+
+    beforeEach(() => {
+      create.mockResolvedValue(completion);
+    });
+
+    it('should record usage per tag and count cache hits as saved', async () => {
+      const params = { model: 'gpt-4o-mini', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+      await wrapper.chat(params, { tag: 'support' });
+      await wrapper.chat(params, { tag: 'support' });
+      await wrapper.summarize('Text', { tag: 'digest' });
+
+      const usage = wrapper.getUsage();
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(usage.total.calls).toBe(2);
+      expect(usage.total.cost).toBeCloseTo(0.0015);
+      expect(Object.keys(usage.byTag)).toEqual(['support', 'digest']);
+      expect(usage.saved).toMatchObject({ calls: 1, totalTokens: 2000 });
+      expect(JSON.parse(wrapper.exportUsage()).byModel['gpt-4o-mini'].calls).toBe(2);
+    });
+
+    it('should reject calls with BudgetExceededError once the budget is spent', async () => {
+      wrapper = new OpenAIWrapper({
+        apiKey: 'test-api-key',
+        client: mockOpenAIClient,
+        usage: { budget: 0.0005 },
+      });
+
+      await wrapper.analyze('Text', 'Analyze');
+      await expect(wrapper.analyze('More', 'Analyze')).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { main } from '../src/openapi-cli.js';
+
+describe('nexus-openapi-types', () => {
+  let directory: string;
+  let errors: string[];
+
+  const document = {
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1.0.0' },
+    paths: {
+      '/users/{id}': {
+        get: {
+          operationId: 'getUserById',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '204': { description: 'OK' } },
+        },
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'openapi-cli-'));
+    errors = [];
+    jest.spyOn(console, 'error').mockImplementation((message) => errors.push(String(message)));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes declarations for a document to the output file', async () => {
+    const input = path.join(directory, 'openapi.json');
+    const out = path.join(directory, 'types', 'api.d.ts');
+    await fs.writeFile(input, JSON.stringify(document));
+
+    const code = await main([input, '-o', out, '--name', 'UsersApi', '--import', '../src/app']);
+
+    expect(code).toBe(0);
+    const types = await fs.readFile(out, 'utf8');
+    expect(types).toContain("from '../src/app';");
+    expect(types).toContain('export interface UsersApi {');
+    expect(types).toContain('getUserById(params: {');
+    expect(errors).toEqual([`Wrote ${out}`]);
+  });
+
+  it('rejects missing and non-OpenAPI 3 inputs', async () => {
+    const input = path.join(directory, 'swagger.json');
+    await fs.writeFile(input, JSON.stringify({ swagger: '2.0' }));
+
+    expect(await main([])).toBe(1);
+    expect(await main([path.join(directory, 'missing.json')])).toBe(1);
+    expect(await main([input])).toBe(1);
+    expect(errors[2]).toBe(`${input} is not an OpenAPI 3.x document`);
+  });
+});
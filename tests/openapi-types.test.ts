@@ -0,0 +1,93 @@
+import ts from 'typescript';
+import { OpenAPIDocument } from '../src/openapi.js';
+import { generateTypes, schemaToType, toTypeName } from '../src/openapi-types.js';
+
+const document: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '2.0.0' },
+  paths: {
+    '/users/{id}': {
+      get: {
+        operationId: 'getUserById',
+        summary: 'Fetch one user',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'expand', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+        ],
+        responses: {
+          '200': {
+            description: 'The user',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+        },
+      },
+      delete: {
+        operationId: 'deleteUser',
+        deprecated: true,
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        security: [{ basicAuth: [] }, { apiKeyAuth: [], bearerAuth: [] }],
+        responses: { '204': { description: 'Deleted' } },
+      },
+    },
+    '/health': {
+      get: { operationId: 'health', security: [], responses: { '204': { description: 'OK' } } },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      basicAuth: { type: 'http', scheme: 'basic' },
+      apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-Key' },
+    },
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+          role: { type: 'string', enum: ['admin', 'member'] },
+          'display-name': { type: 'string', nullable: true },
+        },
+      },
+    },
+  },
+};
+
+describe('generateTypes', () => {
+  it('converts schemas into type expressions', () => {
+    expect(toTypeName('user-profile')).toBe('UserProfile');
+    expect(schemaToType({ oneOf: [{ type: 'string' }, { type: 'integer' }] })).toBe(
+      'string | number'
+    );
+    expect(schemaToType({ type: 'array', items: { $ref: '#/components/schemas/pet' } })).toBe(
+      'Array<Pet>'
+    );
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'number' } })).toBe(
+      'Record<string, number>'
+    );
+  });
+
+  it('emits a declaration with schema types and an operations interface', () => {
+    const output = generateTypes(document, { importFrom: '../src/app' });
+
+    expect(output).toContain("import type { RequestOptions, WrapperResponse } from '../src/app';");
+    expect(output).toContain('export type User = {');
+    expect(output).toContain('  role?: "admin" | "member";');
+    expect(output).toContain('  "display-name"?: string | null;');
+    expect(output).toContain('export interface Operations {');
+    expect(output).toContain('Promise<WrapperResponse<User>>');
+    expect(output).toContain('Promise<WrapperResponse<void>>');
+    expect(output).toContain('   * GET /users/{id}');
+    expect(output).toContain('   * @deprecated');
+    expect(output).toContain('   * Auth: bearerToken\n');
+    expect(output).toContain('   * Auth: basicAuth or apiKey + bearerToken\n');
+    expect(output).toContain('   * Auth: none\n');
+
+    const { diagnostics } = ts.transpileModule(output, {
+      reportDiagnostics: true,
+      fileName: 'operations.ts',
+    });
+    expect(diagnostics).toEqual([]);
+  });
+});
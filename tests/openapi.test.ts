@@ -0,0 +1,214 @@
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { OpenAPIValidationError } from '../src/app.js';
+import {
+  OpenAPIDocument,
+  getApiKeyPlacement,
+  getCredentialFields,
+  getServerURL,
+  listOperations,
+  serializePathParameter,
+  serializeQueryParameter,
+} from '../src/openapi.js';
+
+const petStore = (url: string): OpenAPIDocument => ({
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0.0' },
+  servers: [{ url: `${url}/{version}`, variables: { version: { default: 'v1' } } }],
+  security: [{ apiKeyAuth: [] }],
+  paths: {
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: {
+        operationId: 'getPetById',
+        parameters: [
+          { name: 'fields', in: 'query', style: 'form', explode: false, schema: { type: 'array' } },
+          { name: 'filter', in: 'query', style: 'deepObject', schema: { type: 'object' } },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: { '200': { $ref: '#/components/responses/PetResponse' } },
+      },
+    },
+    '/pets': {
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/health': {
+      get: { operationId: 'health', security: [], responses: { '204': { description: 'OK' } } },
+    },
+  },
+  components: {
+    schemas: {
+      NewPet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } },
+        },
+      },
+      Tag: { type: 'string', enum: ['cat', 'dog'] },
+    },
+    responses: {
+      PetResponse: {
+        description: 'A pet',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } },
+      },
+    },
+    securitySchemes: { apiKeyAuth: { type: 'apiKey', in: 'query', name: 'key' } },
+  },
+});
+
+describe('OpenAPI parameter serialization', () => {
+  const path = (style: any, explode: boolean, value: unknown) =>
+    serializePathParameter({ name: 'id', in: 'path', style, explode }, value);
+  const query = (style: any, explode: boolean | undefined, value: unknown) =>
+    serializeQueryParameter({ name: 'id', in: 'query', style, explode }, value);
+
+  it('serializes path parameters in every style', () => {
+    const object = { role: 'admin', first: 'Alex' };
+
+    expect(path('simple', false, [3, 4, 5])).toBe('3,4,5');
+    expect(path('simple', true, object)).toBe('role=admin,first=Alex');
+    expect(path('label', false, [3, 4, 5])).toBe('.3,4,5');
+    expect(path('label', true, [3, 4, 5])).toBe('.3.4.5');
+    expect(path('matrix', false, 5)).toBe(';id=5');
+    expect(path('matrix', true, [3, 4])).toBe(';id=3;id=4');
+    expect(path('matrix', false, object)).toBe(';id=role,admin,first,Alex');
+    expect(path('matrix', true, object)).toBe(';role=admin;first=Alex');
+    expect(path('simple', false, 'a/b c')).toBe('a%2Fb%20c');
+  });
+
+  it('serializes query parameters in every style', () => {
+    expect(query('form', undefined, [3, 4])).toEqual(['id=3', 'id=4']);
+    expect(query('form', false, [3, 4])).toEqual(['id=3,4']);
+    expect(query('form', true, { role: 'admin' })).toEqual(['role=admin']);
+    expect(query('form', false, { role: 'admin' })).toEqual(['id=role,admin']);
+    expect(query('spaceDelimited', false, [3, 4])).toEqual(['id=3%204']);
+    expect(query('pipeDelimited', false, [3, 4])).toEqual(['id=3%7C4']);
+    expect(query('deepObject', true, { role: 'admin', name: 'Al' })).toEqual([
+      'id[role]=admin',
+      'id[name]=Al',
+    ]);
+  });
+
+  it('reads the server URL and API key placement from the document', () => {
+    const document = petStore('https://api.example.com');
+
+    expect(getServerURL(document)).toBe('https://api.example.com/v1');
+    expect(getApiKeyPlacement(document)).toEqual({ apiKeyName: 'key', apiKeyIn: 'query' });
+  });
+
+  it('maps security requirements to the settings that satisfy them', () => {
+    const document = petStore('https://api.example.com');
+    document.components!.securitySchemes!.bearerAuth = { type: 'http', scheme: 'Bearer' };
+    document.components!.securitySchemes!.digestAuth = { type: 'http', scheme: 'digest' };
+    const [getPet, createPet, health] = listOperations(document);
+    createPet.security = [{ digestAuth: [] }, { apiKeyAuth: [], bearerAuth: [] }];
+
+    expect(getCredentialFields(document, getPet)).toEqual([['apiKey']]);
+    expect(getCredentialFields(document, createPet)).toEqual([['apiKey', 'bearerToken']]);
+    expect(getCredentialFields(document, health)).toEqual([]);
+    expect(getCredentialFields({ ...document, security: undefined }, getPet)).toBeUndefined();
+  });
+});
+
+describe('OpenAPI operations', () => {
+  let server: Server;
+  let url: string;
+  let requests: Array<{ request: IncomingMessage; body: string }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ request: req, body });
+        if (req.url?.startsWith('/v1/health')) {
+          res.writeHead(204);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ url: req.url }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const wrapper = () =>
+    new UniversalAPIWrapper({ openAPIDocument: petStore(url), auth: { apiKey: 'secret' } });
+
+  it('calls operations by operationId with the document base URL and security', async () => {
+    const api = wrapper();
+
+    const response = await api.ops.getPetById({
+      path: { petId: 7 },
+      query: { fields: ['name', 'tags'], filter: { tag: 'cat' } },
+      header: { 'X-Request-Id': 'abc' },
+    });
+
+    expect(response.data.url).toBe('/v1/pets/7?fields=name,tags&filter[tag]=cat&key=secret');
+    expect(requests[0].request.headers['x-request-id']).toBe('abc');
+  });
+
+  it('sends validated JSON bodies', async () => {
+    const api = wrapper();
+
+    await api.ops.createPet({ body: { name: 'Rex', tags: ['dog'] } });
+
+    expect(requests[0].request.method).toBe('POST');
+    expect(requests[0].request.headers['content-type']).toContain('application/json');
+    expect(JSON.parse(requests[0].body)).toEqual({ name: 'Rex', tags: ['dog'] });
+  });
+
+  it('rejects invalid calls before sending them', async () => {
+    const api = wrapper();
+
+    const error = await api.ops.createPet({ body: { name: '', tags: ['fish'] } }).catch((e) => e);
+    const missing = await api.ops.getPetById({ path: {} }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OpenAPIValidationError);
+    expect(error.errors).toEqual([
+      '$.body.name must be at least 1 characters',
+      '$.body.tags[0] must be one of "cat", "dog"',
+    ]);
+    expect(missing.errors).toEqual(['$.path.petId is required']);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('sends operations marked public without credentials', async () => {
+    const api = wrapper();
+
+    await api.ops.health();
+
+    expect(requests[0].request.url).toBe('/v1/health');
+  });
+
+  it('prefers a configured baseURL over the document servers', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL: `${url}/v2`,
+      openAPIDocument: petStore('https://unused.example.com'),
+    });
+
+    const response = await api.ops.getPetById({ path: { petId: 1 } });
+
+    expect(response.data.url).toBe('/v2/pets/1');
+  });
+});
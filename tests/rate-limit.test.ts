@@ -0,0 +1,152 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { RateLimiter, createResponse } from '../src/app.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RateLimiter', () => {
+  it('limits concurrent slots per bucket', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const order: string[] = [];
+
+    const first = await limiter.acquire('host');
+    const second = limiter.acquire('host').then((release) => {
+      order.push('second');
+      return release;
+    });
+    const other = limiter.acquire('other-host').then((release) => {
+      order.push('other');
+      return release;
+    });
+
+    await sleep(5);
+    expect(order).toEqual(['other']);
+    expect(limiter.getStats().buckets['host']).toMatchObject({ queued: 1, active: 1 });
+
+    first();
+    (await second)();
+    (await other)();
+    expect(order).toEqual(['other', 'second']);
+  });
+
+  it('refills tokens over the interval', async () => {
+    const limiter = new RateLimiter({ requests: 2, interval: 100 });
+    const started = Date.now();
+
+    for (let i = 0; i < 3; i++) {
+      (await limiter.acquire('host'))();
+    }
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+
+  it('releases queued requests by priority', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+    const release = await limiter.acquire('host');
+
+    const waiting = [1, 5, 3].map((priority) =>
+      limiter.acquire('host', priority).then((done) => {
+        order.push(priority);
+        done();
+      })
+    );
+    release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual([5, 3, 1]);
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire('host');
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire('host', 0, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(limiter.getStats().queued).toBe(0);
+    release();
+  });
+
+  it('pauses a bucket when the server reports no remaining quota', async () => {
+    const limiter = new RateLimiter({ requests: 10, interval: 1000 });
+    const release = await limiter.acquire('host');
+    limiter.update('host', { 'x-ratelimit-remaining': '0', 'ratelimit-reset': '0.05' });
+    release();
+
+    expect(limiter.getStats().buckets['host'].blockedUntil).toEqual(expect.any(Number));
+    const started = Date.now();
+    (await limiter.acquire('host'))();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+});
+
+describe('UniversalAPIWrapper rate limiting', () => {
+  let server: Server;
+  let baseURL: string;
+  let active: number;
+  let peak: number;
+  let statuses: number[];
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      active++;
+      peak = Math.max(peak, active);
+      setTimeout(() => {
+        active--;
+        const status = statuses.shift() || 200;
+        res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+        res.end('{}');
+      }, 20);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    active = 0;
+    peak = 0;
+    statuses = [];
+  });
+
+  it('never exceeds maxConcurrent requests to a host', async () => {
+    const api = new UniversalAPIWrapper({ baseURL, rateLimit: { maxConcurrent: 2 } });
+
+    const requests = [1, 2, 3, 4, 5].map((id) => api.get(`/items/${id}`));
+    await sleep(5);
+    expect(api.getRateLimitStats()).toMatchObject({ queued: 3, active: 2 });
+    await Promise.all(requests);
+
+    expect(peak).toBe(2);
+  });
+
+  it('applies the limits to retries as well', async () => {
+    statuses = [503];
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      rateLimit: { maxConcurrent: 1 },
+      retryPolicy: { baseDelay: 1 },
+    });
+
+    await Promise.all([api.get('/a'), api.get('/b')]);
+
+    expect(peak).toBe(1);
+  });
+
+  it('keys buckets for a relative baseURL', async () => {
+    const api = new UniversalAPIWrapper({ baseURL: '/v1', rateLimit: { scope: 'route' } });
+    api.use(async (context) => createResponse(context, { ok: true }), { stage: 'attempt' });
+
+    await expect(api.get('/items/1')).resolves.toMatchObject({ data: { ok: true } });
+  });
+
+  it('reports no stats when rate limiting is disabled', () => {
+    expect(new UniversalAPIWrapper({ baseURL }).getRateLimitStats()).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { jest } from '@jest/globals';
+import http, { IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import UniversalAPIWrapper, { RetryContext } from '../src/app.js';
+import { computeBackoff, getServerDelay, resolveRetryPolicy } from '../src/retry.js';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+describe('Retry policy', () => {
+  let server: Server;
+  let baseURL: string;
+  let responses: Handler[];
+  let received: IncomingMessage[];
+
+  const reply =
+    (status: number, headers: Record<string, string> = {}): Handler =>
+    (_req, res) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify({ status }));
+    };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req);
+      const handler = responses.shift() || reply(200);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    received = [];
+  });
+
+  const createWrapper = (retryAttempts = 2) =>
+    new UniversalAPIWrapper({
+      baseURL,
+      retryAttempts,
+      retryPolicy: { baseDelay: 1, maxDelay: 10 },
+    });
+
+  it('treats retryAttempts as the number of retries after the first attempt', async () => {
+    responses = [reply(503), reply(503), reply(200)];
+
+    const response = await createWrapper(2).get('/items');
+
+    expect(response.status).toBe(200);
+    expect(received).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    responses = [reply(404)];
+
+    await expect(createWrapper().get('/missing')).rejects.toThrow(
+      'Request failed with status code 404'
+    );
+    expect(received).toHaveLength(1);
+  });
+
+  it('does not retry POST requests without an idempotency key', async () => {
+    responses = [reply(503), reply(200)];
+
+    await expect(createWrapper().post('/items', { name: 'a' })).rejects.toThrow('503');
+    expect(received).toHaveLength(1);
+  });
+
+  it('retries POST requests that carry an idempotency key', async () => {
+    responses = [reply(503), reply(200)];
+
+    const response = await createWrapper().post(
+      '/items',
+      { name: 'a' },
+      { headers: { 'Idempotency-Key': 'abc' } }
+    );
+
+    expect(response.status).toBe(200);
+    expect(received.map((req) => req.headers['idempotency-key'])).toEqual(['abc', 'abc']);
+  });
+
+  it('can generate an idempotency key for POST requests', async () => {
+    responses = [reply(502), reply(200)];
+
+    await createWrapper().post('/items', {}, { retryPolicy: { autoIdempotencyKey: true } });
+
+    const keys = received.map((req) => req.headers['idempotency-key']);
+    expect(keys[0]).toEqual(expect.any(String));
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  it('waits for Retry-After and reports each retry through onRetry', async () => {
+    responses = [reply(429, { 'Retry-After': '0' }), reply(200)];
+    const onRetry = jest.fn((_context: RetryContext) => undefined);
+
+    await createWrapper().get('/limited', {}, { retryPolicy: { onRetry, baseDelay: 5000 } });
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({
+      attempt: 1,
+      delay: 0,
+      method: 'GET',
+      url: '/limited',
+    });
+  });
+
+  it('lets a request override the configured policy', async () => {
+    responses = [reply(500), reply(200)];
+
+    await expect(
+      createWrapper().get('/items', {}, { retryPolicy: { retries: 0 } })
+    ).rejects.toThrow('500');
+    expect(received).toHaveLength(1);
+  });
+
+  describe('backoff', () => {
+    const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 1000 });
+
+    it('grows exponentially and is capped without jitter', () => {
+      const none = { ...policy, jitter: 'none' as const };
+      expect([1, 2, 3, 4, 5].map((attempt) => computeBackoff(none, attempt, 0))).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    it('applies full jitter within the exponential window', () => {
+      expect(computeBackoff(policy, 3, 0, () => 0.5)).toBe(200);
+    });
+
+    it('applies decorrelated jitter based on the previous delay', () => {
+      const decorrelated = { ...policy, jitter: 'decorrelated' as const };
+      expect(computeBackoff(decorrelated, 2, 200, () => 1)).toBe(600);
+      expect(computeBackoff(decorrelated, 5, 900, () => 1)).toBe(1000);
+    });
+  });
+
+  describe('server delay headers', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    it('reads Retry-After in seconds and as an HTTP date', () => {
+      expect(getServerDelay({ 'retry-after': '3' }, now)).toBe(3000);
+      expect(getServerDelay({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:05 GMT' }, now)).toBe(5000);
+    });
+
+    it('reads RateLimit-Reset as a delta or an epoch timestamp', () => {
+      expect(getServerDelay({ 'ratelimit-reset': '2' }, now)).toBe(2000);
+      expect(getServerDelay({ 'x-ratelimit-reset': String(now / 1000 + 7) }, now)).toBe(7000);
+    });
+  });
+});
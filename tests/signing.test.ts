@@ -0,0 +1,202 @@
+import { jest } from '@jest/globals';
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, createHmac } from 'crypto';
+import UniversalAPIWrapper, { awsSigV4Signer, hmacSigner } from '../src/app.js';
+
+describe('awsSigV4Signer', () => {
+  const credentials = {
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  };
+
+  it('matches the AWS get-vanilla test vector', async () => {
+    const sign = awsSigV4Signer({ service: 'service', region: 'us-east-1', credentials });
+
+    const headers = await sign({
+      method: 'GET',
+      url: new URL('https://example.amazonaws.com/'),
+      headers: {},
+      body: Buffer.alloc(0),
+      date: new Date('2015-08-30T12:36:00Z'),
+    });
+
+    expect(headers).toEqual({
+      'x-amz-date': '20150830T123600Z',
+      authorization:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, ' +
+        'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    });
+  });
+
+  it('signs the session token and resolves credentials per request', async () => {
+    const provider = jest.fn(async () => ({ ...credentials, sessionToken: 'session' }));
+    const sign = awsSigV4Signer({
+      service: 'execute-api',
+      region: 'eu-west-1',
+      credentials: provider,
+    });
+    const request = {
+      method: 'POST',
+      url: new URL('https://abc.execute-api.eu-west-1.amazonaws.com/prod/items?b=2&a=1'),
+      headers: { 'content-type': 'application/json' },
+      body: Buffer.from('{"name":"x"}'),
+      date: new Date('2024-01-01T00:00:00Z'),
+    };
+
+    const first = await sign(request);
+    const second = await sign({ ...request, date: new Date('2024-01-01T00:00:05Z') });
+
+    expect(first['x-amz-security-token']).toBe('session');
+    expect(first.authorization).toContain('SignedHeaders=host;x-amz-date;x-amz-security-token,');
+    expect(second.authorization).not.toBe(first.authorization);
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('hmacSigner', () => {
+  it('signs the configured headers with the configured digest', async () => {
+    const sign = hmacSigner({
+      secret: 'shh',
+      algorithm: 'sha512',
+      signedHeaders: ['(request-target)', 'x-timestamp', 'x-nonce', 'content-type'],
+      timestampFormat: 'iso8601',
+      nonceFormat: () => 'n-1',
+      digestHeader: false,
+      signatureEncoding: 'base64',
+      formatSignature: (signature, names) =>
+        `headers="${names.join(' ')}",signature="${signature}"`,
+    });
+
+    const headers = await sign({
+      method: 'PUT',
+      url: new URL('https://partner.example.com/v1/orders/7?dry=1'),
+      headers: { 'content-type': 'application/json' },
+      body: Buffer.from('{}'),
+      date: new Date('2024-05-01T10:00:00Z'),
+    });
+
+    const expected = createHmac('sha512', 'shh')
+      .update(
+        [
+          '(request-target): put /v1/orders/7?dry=1',
+          'x-timestamp: 2024-05-01T10:00:00.000Z',
+          'x-nonce: n-1',
+          'content-type: application/json',
+        ].join('\n')
+      )
+      .digest('base64');
+    expect(headers).toEqual({
+      'x-timestamp': '2024-05-01T10:00:00.000Z',
+      'x-nonce': 'n-1',
+      'x-signature': `headers="(request-target) x-timestamp x-nonce content-type",signature="${expected}"`,
+    });
+  });
+
+  it('rejects signing a header the request does not have', async () => {
+    const sign = hmacSigner({ secret: 'shh', signedHeaders: ['x-missing'] });
+
+    expect(() =>
+      sign({
+        method: 'GET',
+        url: new URL('https://partner.example.com/'),
+        headers: {},
+        body: Buffer.alloc(0),
+        date: new Date(),
+      })
+    ).toThrow('Cannot sign missing header "x-missing"');
+  });
+});
+
+describe('Request signing', () => {
+  let server: Server;
+  let baseURL: string;
+  let received: Array<{ request: IncomingMessage; body: string }>;
+  let failures: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ request: req, body });
+        if (failures-- > 0) {
+          res.writeHead(503);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"ok":true}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    failures = 0;
+  });
+
+  // What a partner API would check: the signature over the request exactly as it arrived
+  const verify = ({ request, body }: { request: IncomingMessage; body: string }) => {
+    const headers = request.headers as Record<string, string>;
+    const lines = [
+      `(request-target): ${request.method!.toLowerCase()} ${request.url}`,
+      `host: ${headers.host}`,
+      `x-timestamp: ${headers['x-timestamp']}`,
+      `x-nonce: ${headers['x-nonce']}`,
+      `digest: ${headers.digest}`,
+    ];
+    const digest = createHash('sha256').update(body).digest('base64');
+    const signature = createHmac('sha256', 'partner-secret').update(lines.join('\n')).digest('hex');
+    return headers.digest === `SHA-256=${digest}` && headers['x-signature'] === signature;
+  };
+
+  it('signs the serialized body and signs every retry again', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      retryPolicy: { baseDelay: 1, maxDelay: 1, jitter: 'none' },
+      auth: { hmac: { secret: 'partner-secret' } },
+    });
+    failures = 1;
+
+    await api.put('/orders/7', { items: [1, 2] }, { params: { dry: true } });
+
+    expect(received).toHaveLength(2);
+    expect(received[0].body).toBe('{"items":[1,2]}');
+    expect(received.every(verify)).toBe(true);
+    expect(received[1].request.headers['x-nonce']).not.toBe(received[0].request.headers['x-nonce']);
+  });
+
+  it('signs after request headers and middleware have been applied', async () => {
+    const api = new UniversalAPIWrapper({
+      baseURL,
+      auth: {
+        awsSigV4: {
+          service: 'execute-api',
+          region: 'us-east-1',
+          credentials: { accessKeyId: 'AKID', secretAccessKey: 'secret' },
+          signedHeaders: ['x-tenant'],
+        },
+      },
+    }).use(async (ctx, next) => {
+      ctx.options.headers = { ...(ctx.options.headers as any), 'X-Tenant': 'acme' };
+      return next();
+    });
+
+    await api.get('/items');
+
+    const headers = received[0].request.headers;
+    expect(headers['x-tenant']).toBe('acme');
+    expect(headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=host;x-amz-date;x-tenant, Signature=[0-9a-f]{64}$/
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { jest } from '@jest/globals';
+import http, { IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CanceledError } from 'axios';
+import UniversalAPIWrapper, { HttpError, SSEEvent } from '../src/app.js';
+import { SSEParser } from '../src/sse.js';
+
+describe('SSEParser', () => {
+  it('parses fields, multi-line data and comments', () => {
+    const parser = new SSEParser();
+
+    const events = parser.feed(
+      ': keep-alive\nevent: update\ndata: first\ndata:second\nid: 7\nretry: 1500\n\ndata: plain\n\n'
+    );
+
+    expect(events).toEqual([
+      { event: 'update', data: 'first\nsecond', id: '7' },
+      { event: 'message', data: 'plain', id: '7' },
+    ]);
+    expect(parser.retry).toBe(1500);
+  });
+
+  it('handles frames split across chunks and CRLF line endings', () => {
+    const parser = new SSEParser();
+
+    expect(parser.feed('\ufeffdata: hel')).toEqual([]);
+    expect(parser.feed('lo\r')).toEqual([]);
+    expect(parser.feed('\n\r\n')).toEqual([{ event: 'message', data: 'hello', id: undefined }]);
+  });
+
+  it('ignores events without data and invalid retry values', () => {
+    const parser = new SSEParser('3');
+
+    expect(parser.feed('event: empty\n\nretry: soon\n\n')).toEqual([]);
+    expect(parser.retry).toBeUndefined();
+    expect(parser.lastEventId).toBe('3');
+  });
+});
+
+describe('UniversalAPIWrapper SSE', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: IncomingMessage[];
+  let handler: (req: IncomingMessage, res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const eventStream = (res: http.ServerResponse) =>
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+
+  it('streams events with auth headers and resumes with Last-Event-ID', async () => {
+    handler = (req, res) => {
+      eventStream(res);
+      if (!req.headers['last-event-id']) {
+        res.end('retry: 5\nid: 1\ndata: {"n":1}\n\nid: 2\ndata: {"n":2}\n\n');
+      } else {
+        res.write('id: 3\ndata: {"n":3}\n\n');
+      }
+    };
+    const api = new UniversalAPIWrapper({ baseURL, auth: { bearerToken: 'token' } });
+
+    const events: SSEEvent[] = [];
+    for await (const event of api.stream('/events')) {
+      events.push(event);
+      if (events.length === 3) break;
+    }
+
+    expect(events.map((event) => JSON.parse(event.data).n)).toEqual([1, 2, 3]);
+    expect(events[2].id).toBe('3');
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers['authorization']).toBe('Bearer token');
+    expect(requests[0].headers['accept']).toBe('text/event-stream');
+    expect(requests[1].headers['last-event-id']).toBe('2');
+  });
+
+  it('runs request middleware on every connection', async () => {
+    handler = (_req, res) => {
+      // 204 on the reconnect ends the stream
+      if (requests.length > 1) res.writeHead(204);
+      else eventStream(res);
+      res.end('data: hello\n\n');
+    };
+    const api = new UniversalAPIWrapper({ baseURL, cacheEnabled: true, dedupeRequests: true });
+    const stages: string[] = [];
+    api.use(async (ctx, next) => {
+      stages.push(ctx.stage);
+      ctx.options.headers = { ...ctx.options.headers, 'X-Client': 'dashboard' };
+      return next();
+    });
+
+    for await (const event of api.stream('/events', { retryDelay: 0 })) {
+      expect(event.data).toBe('hello');
+    }
+
+    expect(stages).toEqual(['request', 'request']);
+    expect(requests.map((request) => request.headers['x-client'])).toEqual([
+      'dashboard',
+      'dashboard',
+    ]);
+  });
+
+  it('throws HTTP errors instead of reconnecting', async () => {
+    handler = (_req, res) => {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{"error":"no such stream"}');
+    };
+    const api = new UniversalAPIWrapper({ baseURL, retryAttempts: 0 });
+
+    const error = await api
+      .stream('/missing')
+      .next()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.body).toEqual({ error: 'no such stream' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('holds its rate limit slot until the stream closes', async () => {
+    handler = (_req, res) => {
+      eventStream(res);
+      res.write('data: first\n\n');
+    };
+    const api = new UniversalAPIWrapper({ baseURL, rateLimit: { maxConcurrent: 1 } });
+    const stream = api.stream('/events');
+
+    await stream.next();
+    expect(api.getRateLimitStats()?.active).toBe(1);
+
+    await stream.return(undefined);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(api.getRateLimitStats()?.active).toBe(0);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    handler = (_req, res) => {
+      eventStream(res);
+      res.write('data: first\n\n');
+    };
+    const api = new UniversalAPIWrapper({ baseURL });
+    const controller = new AbortController();
+    const stream = api.stream('/events', { signal: controller.signal });
+
+    await expect(stream.next()).resolves.toMatchObject({ value: { data: 'first' } });
+    const pending = stream.next();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CanceledError);
+  });
+
+  it('delivers events to connectSSE callbacks until closed', async () => {
+    handler = (_req, res) => {
+      eventStream(res);
+      res.write('event: tick\ndata: 1\n\n');
+    };
+    const api = new UniversalAPIWrapper({ baseURL });
+    const onEvent = jest.fn();
+    const onError = jest.fn();
+    const onClosed = new Promise<void>((resolve) => {
+      const connection = api.connectSSE('/events', {
+        onEvent: (event) => {
+          onEvent(event);
+          connection.close();
+        },
+        onError,
+        onClose: resolve,
+      });
+    });
+
+    await onClosed;
+
+    expect(onEvent).toHaveBeenCalledWith({ event: 'tick', data: '1', id: undefined });
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
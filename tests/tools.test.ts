@@ -0,0 +1,137 @@
+import { jest } from '@jest/globals';
+import OpenAIWrapper, { defineTool } from '../src/openai.js';
+
+const reply = (
+  message: any,
+  usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'gpt-4o-mini',
+  choices: [
+    { index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason: 'stop' },
+  ],
+  usage,
+});
+
+const toolCall = (id: string, name: string, args: string) => ({
+  id,
+  type: 'function',
+  function: { name, arguments: args },
+});
+
+describe('OpenAIWrapper.runWithTools', () => {
+  const create = jest.fn<(...args: any[]) => Promise<any>>();
+  const client = { chat: { completions: { create } } };
+  let wrapper: OpenAIWrapper;
+
+  const weather = defineTool<{ city: string }>({
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+      additionalProperties: false,
+    },
+    handler: async ({ city }) => ({ city, temperature: 21 }),
+  });
+
+  beforeEach(() => {
+    create.mockReset();
+    wrapper = new OpenAIWrapper({ apiKey: 'test-api-key', client });
+  });
+
+  it('runs tool handlers and feeds their results back until the model answers', async () => {
+    create
+      .mockResolvedValueOnce(
+        reply({ tool_calls: [toolCall('call_1', 'get_weather', '{"city":"Paris"}')] })
+      )
+      .mockResolvedValueOnce(reply({ content: 'It is 21°C in Paris.' }));
+
+    const result = await wrapper.runWithTools(
+      [{ role: 'user', content: 'Weather in Paris?' }],
+      [weather],
+      { model: 'gpt-4o-mini' }
+    );
+
+    expect(result.content).toBe('It is 21°C in Paris.');
+    expect(result.stopReason).toBe('completed');
+    expect(result.steps).toBe(2);
+    expect(result.usage).toEqual({ prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 });
+    expect(result.messages.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'tool',
+      'assistant',
+    ]);
+    expect(result.messages[2]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: '{"city":"Paris","temperature":21}',
+    });
+    expect(create.mock.calls[0][0]).toMatchObject({
+      model: 'gpt-4o-mini',
+      tools: [{ type: 'function', function: { name: 'get_weather' } }],
+    });
+  });
+
+  it('reports invalid arguments, unknown tools and handler errors to the model', async () => {
+    const failing = defineTool({
+      name: 'explode',
+      parameters: { type: 'object', properties: {} },
+      handler: () => {
+        throw new Error('boom');
+      },
+    });
+    const handler = jest.spyOn(weather, 'handler');
+    create
+      .mockResolvedValueOnce(
+        reply({
+          tool_calls: [
+            toolCall('call_1', 'get_weather', '{"town":"Paris"}'),
+            toolCall('call_2', 'missing', '{}'),
+            toolCall('call_3', 'explode', '{}'),
+            toolCall('call_4', 'get_weather', '{oops'),
+          ],
+        })
+      )
+      .mockResolvedValueOnce(reply({ content: 'Sorry.' }));
+
+    const result = await wrapper.runWithTools(
+      [{ role: 'user', content: 'Hi' }],
+      [weather, failing]
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.toolCalls.map((call) => call.error)).toEqual([
+      'Invalid arguments: $.city is required; $.town is not allowed',
+      'Unknown tool "missing"',
+      'boom',
+      'Arguments are not valid JSON',
+    ]);
+    expect(result.messages[3]).toMatchObject({
+      role: 'tool',
+      tool_call_id: 'call_2',
+      content: '{"error":"Unknown tool \\"missing\\""}',
+    });
+  });
+
+  it('stops after maxSteps', async () => {
+    create.mockResolvedValue(
+      reply({ tool_calls: [toolCall('call_1', 'get_weather', '{"city":"Oslo"}')] })
+    );
+    const onToolCall = jest.fn();
+
+    const result = await wrapper.runWithTools([{ role: 'user', content: 'Loop' }], [weather], {
+      maxSteps: 3,
+      onToolCall,
+    });
+
+    expect(result).toMatchObject({ content: null, stopReason: 'max_steps', steps: 3 });
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(onToolCall).toHaveBeenCalledTimes(3);
+    expect(result.usage.total_tokens).toBe(45);
+  });
+});
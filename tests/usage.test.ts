@@ -0,0 +1,74 @@
+import { BudgetExceededError } from '../src/errors.js';
+import { UsageTracker } from '../src/usage.js';
+
+const usage = (prompt: number, completion: number) => ({
+  prompt_tokens: prompt,
+  completion_tokens: completion,
+  total_tokens: prompt + completion,
+});
+
+describe('UsageTracker', () => {
+  it('totals tokens and cost per model, tag and time window', () => {
+    const tracker = new UsageTracker({ prices: { 'my-model': { input: 1, output: 2 } } });
+
+    tracker.record({ model: 'my-model', usage: usage(1000, 500), tag: 'search' });
+    tracker.record({ model: 'gpt-4o-mini-2024-07-18', usage: usage(2000, 1000) });
+    tracker.record({ model: 'unknown', usage: usage(10, 10), tag: 'search' });
+
+    const summary = tracker.summary();
+    expect(summary.total).toEqual({
+      calls: 3,
+      promptTokens: 3010,
+      completionTokens: 1510,
+      totalTokens: 4520,
+      cost: 0.002 + 0.0009,
+    });
+    expect(summary.byModel['my-model'].cost).toBeCloseTo(0.002);
+    expect(summary.byModel['gpt-4o-mini-2024-07-18'].cost).toBeCloseTo(0.0009);
+    expect(summary.byModel['unknown'].cost).toBe(0);
+    expect(summary.byTag).toEqual({
+      search: {
+        calls: 2,
+        promptTokens: 1010,
+        completionTokens: 510,
+        totalTokens: 1520,
+        cost: 0.002,
+      },
+    });
+    expect(summary.byWindow).toHaveLength(1);
+    expect(summary.byWindow[0].calls).toBe(3);
+  });
+
+  it('counts cache hits as saved spend only', () => {
+    const tracker = new UsageTracker();
+
+    tracker.record({ model: 'gpt-4o', usage: usage(1000, 1000), cached: true });
+
+    const summary = tracker.summary();
+    expect(summary.total.calls).toBe(0);
+    expect(summary.saved).toMatchObject({ calls: 1, totalTokens: 2000 });
+    expect(summary.saved.cost).toBeCloseTo(0.0125);
+  });
+
+  it('rejects once the budget is spent', () => {
+    const tracker = new UsageTracker({ budget: 0.01, prices: { m: { input: 10, output: 10 } } });
+
+    tracker.assertWithinBudget();
+    tracker.record({ model: 'm', usage: usage(1000, 0) });
+
+    expect(() => tracker.assertWithinBudget()).toThrow(BudgetExceededError);
+    tracker.reset();
+    expect(() => tracker.assertWithinBudget()).not.toThrow();
+  });
+
+  it('serializes its summary as JSON', () => {
+    const tracker = new UsageTracker({ budget: 5 });
+    tracker.record({ model: 'gpt-4o', usage: usage(1, 1), tag: 'chat' });
+
+    expect(JSON.parse(JSON.stringify(tracker))).toMatchObject({
+      total: { calls: 1 },
+      byTag: { chat: { calls: 1 } },
+      budget: 5,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { jest } from '@jest/globals';
+import { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import UniversalAPIWrapper, {
+  AuthError,
+  HttpError,
+  ManagedWebSocket,
+  NetworkError,
+} from '../src/app.js';
+
+describe('ManagedWebSocket', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  let upgrades: IncomingMessage[];
+  let received: string[];
+  let onConnection: (socket: WebSocket) => void;
+  let connections: ManagedWebSocket[];
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket, request) => {
+      sockets.push(socket);
+      upgrades.push(request);
+      socket.on('message', (data) => received.push(data.toString()));
+      onConnection(socket);
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    sockets = [];
+    upgrades = [];
+    received = [];
+    connections = [];
+    onConnection = () => undefined;
+  });
+
+  afterEach(() => {
+    for (const connection of connections) connection.close();
+  });
+
+  const waitFor = async (condition: () => boolean) => {
+    while (!condition()) await new Promise((resolve) => setTimeout(resolve, 5));
+  };
+
+  const connect = (options = {}) => {
+    const connection = new UniversalAPIWrapper({ auth: { apiKey: 'key' } }).connectWebSocket(url, {
+      reconnect: { baseDelay: 5, jitter: 'none' },
+      ...options,
+    });
+    connections.push(connection);
+    return connection;
+  };
+
+  it('sends auth headers on the upgrade request and queues messages until open', async () => {
+    const onOpen = jest.fn();
+    const connection = connect({ onOpen });
+
+    connection.send('first');
+    connection.send({ type: 'second' });
+    expect(connection.queuedMessages).toBe(2);
+
+    await waitFor(() => received.length === 2);
+    expect(received).toEqual(['first', '{"type":"second"}']);
+    expect(upgrades[0].headers['x-api-key']).toBe('key');
+    expect(onOpen).toHaveBeenCalledTimes(1);
+  });
+
+  it('reconnects with backoff and replays subscriptions', async () => {
+    const onReconnecting = jest.fn();
+    const onReconnected = jest.fn();
+    const onClose = jest.fn();
+    const connection = connect({ onReconnecting, onReconnected, onClose });
+    connection.subscribe({ subscribe: 'prices' }, { unsubscribe: 'prices' });
+    await waitFor(() => received.length === 1);
+
+    sockets[0].terminate();
+    await waitFor(() => onReconnected.mock.calls.length === 1);
+    connection.send('after');
+    await waitFor(() => received.length === 3);
+
+    expect(onReconnecting).toHaveBeenCalledWith(1, 5);
+    expect(onReconnected).toHaveBeenCalledWith(1);
+    expect(onClose).not.toHaveBeenCalled();
+    expect(received).toEqual(['{"subscribe":"prices"}', '{"subscribe":"prices"}', 'after']);
+  });
+
+  it('stops after the configured number of reconnect attempts', async () => {
+    const closed = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => closed.once('listening', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const onReconnecting = jest.fn();
+    const onClose = jest.fn();
+    const connection = new UniversalAPIWrapper().connectWebSocket(`ws://127.0.0.1:${port}`, {
+      reconnect: { retries: 2, baseDelay: 5 },
+      onReconnecting,
+      onClose,
+      onError: () => undefined,
+    });
+
+    await waitFor(() => onClose.mock.calls.length === 1);
+
+    expect(onReconnecting).toHaveBeenCalledTimes(2);
+    expect(connection.readyState).toBe(WebSocket.CLOSED);
+  });
+
+  it('keeps reconnecting when fetching auth headers fails transiently', async () => {
+    const onReconnected = jest.fn();
+    const onClose = jest.fn();
+    let calls = 0;
+    const connection = new ManagedWebSocket(url, {
+      reconnect: { baseDelay: 5, jitter: 'none' },
+      getHeaders: () => {
+        calls++;
+        if (calls === 2) throw new NetworkError('Token endpoint unreachable');
+        if (calls === 3) throw new HttpError({ status: 503 });
+        return { authorization: `Bearer ${calls}` };
+      },
+      onReconnected,
+      onClose,
+      onError: () => undefined,
+    });
+    connections.push(connection);
+    await waitFor(() => sockets.length === 1);
+
+    sockets[0].terminate();
+    await waitFor(() => onReconnected.mock.calls.length === 1);
+
+    expect(onReconnected).toHaveBeenCalledWith(3);
+    expect(upgrades[1].headers.authorization).toBe('Bearer 4');
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('closes for good when auth headers are rejected', async () => {
+    const onClose = jest.fn();
+    const onError = jest.fn();
+    const error = new AuthError({ status: 401, body: { error: 'invalid_client' } });
+    const connection = new ManagedWebSocket(url, {
+      getHeaders: () => {
+        throw error;
+      },
+      onClose,
+      onError,
+    });
+
+    await waitFor(() => onClose.mock.calls.length === 1);
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(connection.readyState).toBe(WebSocket.CLOSED);
+    expect(sockets).toHaveLength(0);
+  });
+
+  it('detects dead connections with the heartbeat', async () => {
+    // A paused server socket never reads the ping, so it never answers with a pong
+    onConnection = (socket) => (socket as any)._socket.pause();
+    const onReconnecting = jest.fn();
+    connect({ heartbeatInterval: 10, heartbeatTimeout: 20, onReconnecting });
+
+    await waitFor(() => onReconnecting.mock.calls.length > 0);
+    expect(onReconnecting).toHaveBeenCalledWith(1, 5);
+  });
+
+  it('does not reconnect after close()', async () => {
+    const onClose = jest.fn();
+    const connection = connect({ onClose });
+    await waitFor(() => connection.readyState === WebSocket.OPEN);
+
+    connection.close();
+    await waitFor(() => onClose.mock.calls.length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(sockets).toHaveLength(1);
+    expect(() => connection.send('late')).toThrow('closed');
+  });
+});
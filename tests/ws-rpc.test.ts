@@ -0,0 +1,174 @@
+import { jest } from '@jest/globals';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import UniversalAPIWrapper, { RpcError, TimeoutError, WebSocketRpc } from '../src/app.js';
+import { envelopeCodec, jsonRpcCodec } from '../src/ws-rpc.js';
+
+describe('RPC codecs', () => {
+  it('encodes and decodes JSON-RPC 2.0 messages', () => {
+    expect(jsonRpcCodec.encodeRequest(1, 'add', [1, 2])).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'add',
+      params: [1, 2],
+    });
+    expect(
+      jsonRpcCodec.decode([
+        { jsonrpc: '2.0', id: 1, result: 3 },
+        { jsonrpc: '2.0', method: 'tick', params: { n: 1 } },
+      ])
+    ).toEqual([
+      { id: 1, result: 3, error: undefined },
+      { id: undefined, type: 'tick', payload: { n: 1 } },
+    ]);
+  });
+
+  it('encodes {id, type, payload} envelopes', () => {
+    expect(envelopeCodec.encodeRequest(7, 'getUser', { id: 1 })).toEqual({
+      id: 7,
+      type: 'getUser',
+      payload: { id: 1 },
+    });
+    expect(envelopeCodec.encodeNotification('ping')).toEqual({ type: 'ping', payload: undefined });
+  });
+});
+
+describe('WebSocketRpc', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  let requests: any[];
+  let rpcs: WebSocketRpc[];
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket) => {
+      sockets.push(socket);
+      socket.on('message', (raw) => {
+        const message = JSON.parse(raw.toString());
+        requests.push(message);
+        const reply = (body: any) => socket.send(JSON.stringify(body));
+        if (message.type === 'getUser') {
+          reply({ id: message.id, type: 'user', payload: { name: 'Ada' } });
+        } else if (message.method === 'add') {
+          reply({ jsonrpc: '2.0', id: message.id, result: message.params[0] + message.params[1] });
+        } else if (message.method === 'fail') {
+          reply({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'No method' } });
+        } else if (message.method === 'later') {
+          setTimeout(() => reply({ jsonrpc: '2.0', id: message.id, result: 'done' }), 30);
+        } else if (message.method === 'subscribe') {
+          reply({ jsonrpc: '2.0', id: message.id, result: true });
+          reply({ jsonrpc: '2.0', method: 'price', params: { symbol: 'ABC', price: 10 } });
+          reply({ jsonrpc: '2.0', method: 'unknown', params: {} });
+        }
+      });
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    sockets = [];
+    requests = [];
+    rpcs = [];
+  });
+
+  afterEach(() => {
+    for (const rpc of rpcs) rpc.close();
+  });
+
+  const connect = (options = {}) => {
+    const rpc = new UniversalAPIWrapper().connectRpc(url, {
+      reconnect: { baseDelay: 5, jitter: 'none' },
+      ...options,
+    });
+    rpcs.push(rpc);
+    return rpc;
+  };
+
+  it('correlates concurrent calls with their replies by id', async () => {
+    const rpc = connect();
+
+    const [slow, fast] = await Promise.all([rpc.call('later'), rpc.call('add', [2, 3])]);
+
+    expect(slow).toBe('done');
+    expect(fast).toBe(5);
+    expect(requests.map((request) => request.id)).toEqual([1, 2]);
+  });
+
+  it('rejects with RpcError when the server returns an error', async () => {
+    const error = await connect()
+      .call('fail')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error).toMatchObject({ message: 'No method', rpcCode: -32601, code: 'RPC_ERROR' });
+  });
+
+  it('times out calls that get no reply', async () => {
+    const rpc = connect({ timeout: 20 });
+
+    await expect(rpc.call('ignored')).rejects.toBeInstanceOf(TimeoutError);
+    expect(rpc.pendingCalls).toBe(0);
+  });
+
+  it('routes server pushes to handlers and passes the rest to onMessage', async () => {
+    const onMessage = jest.fn();
+    const rpc = connect({ onMessage });
+    const prices: any[] = [];
+    rpc.on('price', (payload) => prices.push(payload));
+
+    await rpc.call('subscribe');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(prices).toEqual([{ symbol: 'ABC', price: 10 }]);
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the envelope codec', async () => {
+    const rpc = connect({ codec: 'envelope' });
+
+    await expect(rpc.call('getUser', { id: 1 })).resolves.toEqual({ name: 'Ada' });
+    expect(requests[0]).toEqual({ id: 1, type: 'getUser', payload: { id: 1 } });
+  });
+
+  it('holds calls back while too many are pending', async () => {
+    const rpc = connect({ maxPending: 1 });
+
+    const first = rpc.call('later');
+    const second = rpc.call('add', [1, 1]);
+    expect(rpc.pendingCalls).toBe(1);
+    expect(rpc.queuedCalls).toBe(1);
+
+    await expect(first).resolves.toBe('done');
+    await expect(second).resolves.toBe(2);
+    expect(requests.map((request) => request.method)).toEqual(['later', 'add']);
+  });
+
+  it('rejects in-flight calls when the connection drops', async () => {
+    const rpc = connect();
+    await rpc.call('add', [1, 1]);
+
+    const call = rpc.call('later');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    sockets[0].terminate();
+
+    await expect(call).rejects.toThrow('WebSocket connection lost');
+  });
+
+  it('rejects calls made before the socket opened when the connection drops', async () => {
+    const rpc = connect({ timeout: 3000 });
+
+    // Queued by the socket, which is still connecting
+    const call = rpc.call('later');
+    while (requests.length === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+    sockets[0].terminate();
+
+    await expect(call).rejects.toThrow('WebSocket connection lost');
+  });
+});